@@ -1,71 +1,87 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Quote } from '../lib/types';
+import { isRepeat, parseQuoteRequest } from '../lib/quotes';
+import type { QuoteError } from '../lib/quotes';
+import { DEFAULT_PROVIDERS } from '../lib/quoteProviders';
+import type { QuoteProvider } from '../lib/quoteProviders';
+import { clientIp, createRateLimiter } from '../lib/rateLimit';
+import type { RateLimit } from '../lib/rateLimit';
 
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse,
-) {
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+export const QUOTE_RATE_LIMIT: RateLimit = { limit: 20, windowMs: 60 * 1000 };
+const MAX_CACHED_QUOTES = 500;
 
-  // Get the API key from environment (server-side only, never exposed to client)
-  const apiKey = process.env.GEMINI_API_SECRET;
+export type QuoteHandlerOptions = {
+  providers?: QuoteProvider[];
+  rateLimit?: RateLimit;
+  now?: () => number;
+};
 
-  if (!apiKey) {
-    console.error('GEMINI_API_SECRET not configured');
-    return res.status(500).json({ error: 'API key not configured' });
-  }
+const sendError = (res: VercelResponse, status: number, error: QuoteError) => res.status(status).json({ error });
 
-  try {
-    // Call Gemini API from the server
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: 'Generate one short, impactful, inspirational quote about personal growth or success. Only return the quote text without any attribution or extra explanation.'
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.9,
-            maxOutputTokens: 100,
-          }
-        })
-      }
-    );
+export const createQuoteHandler = ({
+  providers = DEFAULT_PROVIDERS,
+  rateLimit = QUOTE_RATE_LIMIT,
+  now = Date.now,
+}: QuoteHandlerOptions = {}) => {
+  // Both last as long as the function instance. Cache keys start with the day, so a
+  // day's quotes are served until it ends and then age out.
+  const cache = new Map<string, Quote>();
+  const limit = createRateLimiter(rateLimit);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API error:', errorText);
-      return res.status(response.status).json({ error: 'Failed to fetch quote from Gemini' });
+  return async (req: VercelRequest, res: VercelResponse) => {
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      return sendError(res, 405, { code: 'method_not_allowed', message: 'Use POST to ask for a quote.' });
     }
 
-    const data = await response.json();
-    
-    // Extract the quote text
-    const quote = data?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
-    
-    if (!quote) {
-      return res.status(500).json({ error: 'No quote generated' });
+    const allowed = limit(clientIp(req), now());
+    if (!allowed.ok) {
+      const retryAfterSeconds = Math.ceil(allowed.retryAfterMs / 1000);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      return sendError(res, 429, {
+        code: 'rate_limited',
+        message: `That's a lot of quotes. Try again in ${retryAfterSeconds} s.`,
+        retryAfterSeconds,
+      });
     }
 
-    // Clean the quote
-    const cleanedQuote = quote
-      .replace(/"/g, '')
-      .replace(/^\s+|\s+$/g, '')
-      .replace(/—.*$/, '')
-      .trim();
+    let body: unknown;
+    try {
+      body = req.body;
+    } catch {
+      // The body getter throws on malformed JSON
+      return sendError(res, 400, { code: 'invalid_request', message: 'The request body is not valid JSON.' });
+    }
+    const parsed = parseQuoteRequest(body);
+    if (!parsed.ok) {
+      return sendError(res, 400, { code: 'invalid_request', message: parsed.error });
+    }
+    const { request } = parsed;
+    const day = request.day ?? new Date(now()).toISOString().slice(0, 10);
 
-    return res.status(200).json({ quote: cleanedQuote });
+    const key = JSON.stringify([day, request.theme, request.language, [...request.reminders].sort()]);
+    const cached = cache.get(key);
+    if (cached && !isRepeat(cached.quote, request.avoid)) {
+      res.setHeader('X-Quote-Source', 'cache');
+      return res.status(200).json(cached);
+    }
+
+    for (const provider of providers) {
+      try {
+        const quote = await provider.getQuote(request, day);
+        if (!quote) continue;
+        cache.delete(key);
+        cache.set(key, quote);
+        if (cache.size > MAX_CACHED_QUOTES) cache.delete(cache.keys().next().value!);
+        res.setHeader('X-Quote-Source', provider.name);
+        return res.status(200).json(quote);
+      } catch (error) {
+        console.error(`Quote provider ${provider.name} failed:`, error);
+      }
+    }
+    return sendError(res, 503, { code: 'unavailable', message: 'No quote is available right now. Try again later.' });
+  };
+};
 
-  } catch (error) {
-    console.error('Error fetching quote:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-}
+export default createQuoteHandler();
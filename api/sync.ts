@@ -0,0 +1,91 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { MAX_SYNC_CHANGES, parseSyncRequest } from '../lib/sync';
+import type { SyncError } from '../lib/sync';
+import { applyChanges, changesSince, createFileStore, createMemoryStore, emptySpace } from '../lib/syncStore';
+import type { SyncStore } from '../lib/syncStore';
+import { clientIp, createRateLimiter } from '../lib/rateLimit';
+import type { RateLimit } from '../lib/rateLimit';
+
+export const SYNC_RATE_LIMIT: RateLimit = { limit: 30, windowMs: 60 * 1000 };
+
+export type SyncHandlerOptions = {
+  store?: SyncStore | null;
+  rateLimit?: RateLimit;
+  now?: () => number;
+};
+
+// SYNC_DATA_DIR keeps spaces in JSON files there. Without it they would only live as
+// long as the function instance, which is fine for development and tests; in
+// production there's no store and sync answers 503.
+const defaultStore = () => {
+  const dir = process.env.SYNC_DATA_DIR;
+  if (dir) return createFileStore(dir);
+  return process.env.NODE_ENV === 'production' ? null : createMemoryStore();
+};
+
+const sendError = (res: VercelResponse, status: number, error: SyncError) => res.status(status).json({ error });
+
+export const createSyncHandler = ({
+  store = defaultStore(),
+  rateLimit = SYNC_RATE_LIMIT,
+  now = Date.now,
+}: SyncHandlerOptions = {}) => {
+  const limit = createRateLimiter(rateLimit);
+  if (!store) console.error('Sync has no store: set SYNC_DATA_DIR to keep synced data.');
+  // Requests for the same space run one after another so none loses another's changes
+  const queues = new Map<string, Promise<unknown>>();
+  const exclusive = <T>(space: string, task: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(space) ?? Promise.resolve();
+    const run = previous.catch(() => {}).then(task);
+    queues.set(space, run);
+    run.finally(() => {
+      if (queues.get(space) === run) queues.delete(space);
+    }).catch(() => {});
+    return run;
+  };
+
+  return async (req: VercelRequest, res: VercelResponse) => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      return sendError(res, 405, { code: 'method_not_allowed', message: 'Use POST to sync.' });
+    }
+    if (!store) {
+      return sendError(res, 503, { code: 'unavailable', message: 'Sync is not set up on this server.' });
+    }
+
+    const allowed = limit(clientIp(req), now());
+    if (!allowed.ok) {
+      const retryAfterSeconds = Math.ceil(allowed.retryAfterMs / 1000);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      return sendError(res, 429, { code: 'rate_limited', message: `Syncing too often. Try again in ${retryAfterSeconds} s.`, retryAfterSeconds });
+    }
+
+    let body: unknown;
+    try {
+      body = req.body;
+    } catch {
+      // The body getter throws on malformed JSON
+      return sendError(res, 400, { code: 'invalid_request', message: 'The request body is not valid JSON.' });
+    }
+    const parsed = parseSyncRequest(body);
+    if (!parsed.ok) {
+      return sendError(res, 400, { code: 'invalid_request', message: parsed.error });
+    }
+    const { space, changes } = parsed.request;
+
+    try {
+      const response = await exclusive(space, async () => {
+        const data = (await store.load(space)) ?? emptySpace();
+        const applied = applyChanges(data, changes);
+        if (applied.accepted.size > 0) await store.save(space, data);
+        return changesSince(data, parsed.request, applied, MAX_SYNC_CHANGES);
+      });
+      return res.status(200).json(response);
+    } catch (error) {
+      console.error(`Sync store ${store.name} failed:`, error);
+      return sendError(res, 503, { code: 'unavailable', message: 'Sync is unavailable right now. Your changes are kept on this device.' });
+    }
+  };
+};
+
+export default createSyncHandler();
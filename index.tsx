@@ -1,45 +1,103 @@
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useContext, createContext } from 'react';
 import { createRoot } from 'react-dom/client';
-
-// --- TYPES ---
-type Reminder = {
-  id: string;
-  name: string;
-  duration: number; // minutes
-  active: boolean;
-  createdAt: number;
-  lastTriggered: number;
-  type: 'recurring' | 'once';
-  interval?: number; // minutes, for recurring
-  triggerTime?: string; // HH:mm, for once
-};
-type Stats = {
-  completed: number;
-  streak: number;
-  lastCompletionDate: string | null;
-};
-type ActiveBreak = {
-  id: string;
-  name: string;
-  startedAt: number; // timestamp ms when break started
-  durationSeconds: number; // total duration in seconds
-};
+import type { Reminder, Stats, ActiveBreak, BreakEvent, RoutineStep, Settings, AmbientSound, QuietHours, HeldBreak, HeldReminders, WorkSchedule, DaySummary, Quote, QuoteTheme, SavedQuote, SyncState, Profile } from './lib/types';
+import { completionTrend, reminderRates, totalFocusMinutes, topSkipHours, completionHeatmap, formatHour } from './lib/analytics';
+import type { TrendUnit, ReminderRate } from './lib/analytics';
+import {
+  ALL_DAYS, WEEKDAY_LABELS, WEEKDAY_ORDER, nextOccurrence, reminderStatus, dueReminders, markTriggered, snoozeReminder,
+  describeSchedule, formatCountdown, formatNextAt, formatDuration,
+} from './lib/scheduling';
+import { routineDuration, routineProgress, describeRoutine } from './lib/routines';
+import { habitProgress } from './lib/goals';
+import type { HabitProgress } from './lib/goals';
+import { getElapsed, getRemaining, isPaused, pauseBreak, resumeBreak, abandonsAt, breakEndEvent } from './lib/breaks';
+import { SETTINGS_KEY, DEFAULT_SETTINGS, withDefaults } from './lib/settings';
+import { systemClock } from './lib/clock';
+import type { Clock } from './lib/clock';
+import {
+  NOTIFICATION_SNOOZE_MINUTES, notificationPermission, requestNotificationPermission,
+  pageIsInBackground, notifyBreakDue, notifyBreakComplete, clearBreakDueNotification, onNotificationAction,
+  consumeNotificationActionFromUrl,
+} from './lib/notifications';
+import type { NotificationActionMessage } from './lib/notifications';
+import { createBackup, parseBackup, previewImport, applyImport, toICalendar, downloadFile } from './lib/backup';
+import type { BackupBundle, BackupData, ImportMode } from './lib/backup';
+import { runMigrations, readQuarantine, clearQuarantine, arrayOf, guard, isBoolean, isNullableString, isNullableNumber } from './lib/persistence';
+import type { Schema, QuarantineEntry } from './lib/persistence';
+import { isReminder, isBreakEvent, isActiveBreak, isStats, isTheme, isSettings, isHeldBreak, isDaySummary, isQuote, isQuoteError, isSavedQuote, isSyncError, isProfile } from './lib/validation';
+import { PENDING_BREAKS_KEY, ACTIVE_BREAKS_KEY, restoreBreaks } from './lib/recovery';
+import { startLeaderElection } from './lib/tabs';
+import { parseQuickAdd, QUICK_ADD_EXAMPLES } from './lib/quickAdd';
+import type { QuickAddDraft, QuickAddResult } from './lib/quickAdd';
+import { HISTORY_KEY, EMPTY_STATS, EVENT_LABELS, appendEvents, createBreakEvent, groupEventsByDay, dayKey } from './lib/history';
+import { computeStats, streakDayKey, FREEZE_EVERY_DAYS, MAX_FREEZES } from './lib/streaks';
+import type { CurrentStats } from './lib/streaks';
+import { SOUND_CUES, AMBIENT_SOUNDS, CUE_LABELS, AMBIENT_LABELS, playCue, previewCue, startAmbient, unlockAudioOnGesture } from './lib/audio';
+import {
+  DND_KEY, HELD_BREAKS_KEY, DND_PRESET_MINUTES, isDndActive, holdReason, dndUntilTime, dndUntilTomorrow, holdBreaks, describeHeld,
+} from './lib/quiet';
+import { DAY_SUMMARIES_KEY, summarizeDay, saveSummary, summaryLines, summaryToText } from './lib/summary';
+import { WORK_SESSION_MARK_KEY, lastWorkBoundary, watchActivity, isAway, sleptBetween, restartRecurring } from './lib/workday';
+import { QUOTE_HISTORY_KEY, QUOTE_HISTORY_LIMIT, QUOTE_THEMES, QUOTE_THEME_LABELS, quoteRequestFor, addQuote, toggleFavorite } from './lib/quotes';
+import type { QuoteError, QuoteRequest } from './lib/quotes';
+import { startServiceWorker, applyUpdate } from './lib/pwa';
+import { createStorageAdapter } from './lib/storageAdapter';
+import type { StorageAdapter } from './lib/storageAdapter';
+import {
+  PROFILES_KEY, ACTIVE_PROFILE_KEY, MAX_PROFILE_NAME_LENGTH, createProfile, renameProfile, deleteProfileData,
+} from './lib/profiles';
+import { SYNC_STATE_KEY, SYNC_INTERVAL_MS, syncStateSchema, newSyncCode, startSync, stopSync, syncNow } from './lib/syncClient';
+import type { SendSync } from './lib/syncClient';
+import { isSyncResponse, isSyncSpace } from './lib/sync';
+import type { SyncError } from './lib/sync';
 
 // Vite env typings (augment minimal for this file)
 // Lightweight env access helper for Vite
 // (TS config can be extended later with a global declaration file)
 
 // --- HOOKS ---
-function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
+// Source of "now" for everything schedule- or timer-related; swap it to run on simulated time
+const ClockContext = createContext<Clock>(systemClock);
+const useClock = () => useContext(ClockContext);
+
+// How often useToday looks at the clock; a minute late at midnight is fine
+const DAY_CHECK_MS = 60 * 1000;
+
+// Today's key (days start at `dayStartHour`, see lib/streaks). It changes when the day
+// rolls over, so memos that depend on it recompute anything derived from "today".
+const useToday = (dayStartHour = 0) => {
+  const clock = useClock();
+  const [today, setToday] = useState(() => streakDayKey(clock(), dayStartHour));
+  useEffect(() => {
+    const update = () => setToday(streakDayKey(clock(), dayStartHour));
+    update();
+    const intervalId = setInterval(update, DAY_CHECK_MS);
+    return () => clearInterval(intervalId);
+  }, [clock, dayStartHour]);
+  return today;
+};
+
+// Storage the hooks below read and write: device-wide keys at the root, the active
+// profile's copy of each key inside it (see Root)
+const StorageContext = createContext<StorageAdapter>(createStorageAdapter(window.localStorage));
+const useStorage = () => useContext(StorageContext);
+
+// `schema` validates what's loaded; see lib/persistence for quarantine and salvage rules.
+function useLocalStorage<T>(key: string, initialValue: T, schema?: Schema<T>): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const storageAdapter = useStorage();
+  const [storedValue, setStoredValue] = useState<T>(() => storageAdapter.load(key, initialValue, schema));
+
+  // Mirror writes made by other tabs
+  const initialRef = useRef({ initialValue, schema });
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage || (event.key !== storageAdapter.keyFor(key) && event.key !== null)) return;
+      const { initialValue: fallback, schema: currentSchema } = initialRef.current;
+      setStoredValue(storageAdapter.load(key, fallback, currentSchema));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key, storageAdapter]);
 
   const setValue = useCallback<React.Dispatch<React.SetStateAction<T>>>(
     (value) => {
@@ -48,7 +106,7 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<Re
         setStoredValue(prev => {
           const valueToStore = value instanceof Function ? (value as (prev: T) => T)(prev) : value;
           try {
-            window.localStorage.setItem(key, JSON.stringify(valueToStore));
+            return storageAdapter.save(key, prev, valueToStore);
           } catch (e) {
             // ignore storage errors but still update state
             console.error('Failed to write to localStorage', e);
@@ -59,7 +117,7 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<Re
         console.error(error);
       }
     },
-    [key]
+    [key, storageAdapter]
   );
 
   return [storedValue, setValue];
@@ -68,53 +126,63 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<Re
 
 // --- API ---
 const QUOTE_FALLBACK = "The journey of a thousand miles begins with a single step.";
-const QUOTE_CACHE_KEY = "dailyQuote";
-const QUOTE_CACHE_DATE_KEY = "dailyQuoteDate";
 
-const fetchQuote = async (): Promise<string> => {
-  // Daily caching: if stored and same date, reuse
+// `offline` when the service worker answered with the last saved quote
+type QuoteResult = { ok: true; quote: Quote; offline: boolean } | { ok: false; error: QuoteError };
+
+const QUOTE_OFFLINE_ERROR: QuoteError = { code: 'unavailable', message: "Couldn't reach the quote service. Check your connection." };
+const QUOTE_OFFLINE_NOTICE: QuoteError = { code: 'unavailable', message: "You're offline; this is the last quote that was fetched." };
+
+const fetchQuote = async (request: QuoteRequest): Promise<QuoteResult> => {
+  // Call secure serverless endpoint instead of exposing API key client-side
   try {
-    const today = new Date().toISOString().split('T')[0];
-    const cachedDate = localStorage.getItem(QUOTE_CACHE_DATE_KEY);
-    const cachedQuote = localStorage.getItem(QUOTE_CACHE_KEY);
-    if (cachedDate === today && cachedQuote) {
-      return cachedQuote;
-    }
+    const response = await fetch('/api/fetch-quote', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
 
-    // Call secure serverless endpoint instead of exposing API key client-side
-    try {
-      const response = await fetch('/api/fetch-quote', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        console.warn('Failed to fetch quote from server:', response.status);
-        localStorage.setItem(QUOTE_CACHE_KEY, QUOTE_FALLBACK);
-        localStorage.setItem(QUOTE_CACHE_DATE_KEY, today);
-        return QUOTE_FALLBACK;
-      }
+    const data: unknown = await response.json().catch(() => null);
+    if (response.ok && isQuote(data)) return { ok: true, quote: data, offline: response.headers.get('X-Quote-Source') === 'offline' };
 
-      const data = await response.json();
-      const quote = data.quote || QUOTE_FALLBACK;
-
-      localStorage.setItem(QUOTE_CACHE_KEY, quote);
-      localStorage.setItem(QUOTE_CACHE_DATE_KEY, today);
-      return quote;
-    } catch (error) {
-      console.error('Error fetching quote:', error);
-      localStorage.setItem(QUOTE_CACHE_KEY, QUOTE_FALLBACK);
-      localStorage.setItem(QUOTE_CACHE_DATE_KEY, today);
-      return QUOTE_FALLBACK;
-    }
+    console.warn('Failed to fetch quote from server:', response.status, data);
+    const error = (data as { error?: unknown } | null)?.error;
+    return {
+      ok: false,
+      error: isQuoteError(error) ? error : { code: 'unavailable', message: `The quote service answered with an error (${response.status}).` },
+    };
   } catch (error) {
-    console.error("Failed to fetch quote:", error);
-    const today = new Date().toISOString().split('T')[0];
-    localStorage.setItem(QUOTE_CACHE_KEY, QUOTE_FALLBACK);
-    localStorage.setItem(QUOTE_CACHE_DATE_KEY, today);
-    return QUOTE_FALLBACK;
+    console.error('Error fetching quote:', error);
+    return { ok: false, error: QUOTE_OFFLINE_ERROR };
+  }
+};
+
+const SYNC_OFFLINE_ERROR: SyncError = { code: 'unavailable', message: "Couldn't reach the sync service. Changes are kept on this device until it can." };
+
+const postSync: SendSync = async request => {
+  try {
+    const response = await fetch('/api/sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data: unknown = await response.json().catch(() => null);
+    if (response.ok && isSyncResponse(data)) return { ok: true, response: data };
+
+    console.warn('Sync failed:', response.status, data);
+    const error = (data as { error?: unknown } | null)?.error;
+    return {
+      ok: false,
+      error: isSyncError(error) ? error : { code: 'unavailable', message: `The sync service answered with an error (${response.status}).` },
+    };
+  } catch (error) {
+    console.error('Error syncing:', error);
+    return { ok: false, error: SYNC_OFFLINE_ERROR };
   }
 };
 
@@ -122,75 +190,44 @@ const fetchQuote = async (): Promise<string> => {
 // --- UI COMPONENTS ---
 
 const CountdownTimer = ({ reminder, isSessionActive, activeBreaks }: { reminder: Reminder, isSessionActive: boolean, activeBreaks: ActiveBreak[] }) => {
+  const clock = useClock();
   // Derive a stable primitive key for activeBreaks membership checks
   const activeBreakIdsKey = useMemo(() => activeBreaks.map(b => b.id).sort().join('|'), [activeBreaks]);
 
-  const { id, type, lastTriggered, interval, triggerTime, active } = reminder;
+  const { type, active } = reminder;
 
   const calculateTimeLeft = useCallback(() => {
-    // quick membership check
-    if (activeBreakIdsKey.includes(id)) return 'In Progress';
-
-    const now = new Date();
-
-    if (type === 'recurring') {
-      if (!isSessionActive && active) return 'Paused';
-      if (lastTriggered === 0) return 'Paused';
-      const dueTime = lastTriggered + (interval || 0) * 60 * 1000;
-      const diff = dueTime - now.getTime();
-      if (diff <= 0) return 'Now!';
-
-      const hours = Math.floor(diff / (1000 * 60 * 60));
-      const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-      const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-
-      if (hours > 0) return `${hours}h ${minutes}m`;
-      if (minutes > 0) return `${minutes}m ${seconds}s`;
-      return `${seconds}s`;
-    }
-
-    if (type === 'once' && triggerTime) {
-      const [hours, minutes] = triggerTime.split(':').map(Number);
-      const targetTime = new Date();
-      targetTime.setHours(hours, minutes, 0, 0);
-
-      const lastTriggerDate = new Date(lastTriggered);
-      const sameDayTrigger = lastTriggered !== 0 && lastTriggerDate.toDateString() === targetTime.toDateString();
-
-      if (sameDayTrigger) return 'Done';
-
-      const diff = targetTime.getTime() - now.getTime();
-      if (diff <= 0) return 'Now!';
-
-      const h = Math.floor(diff / (1000 * 60 * 60));
-      const m = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-      const s = Math.floor((diff % (1000 * 60)) / 1000);
-
-      if (h > 0) return `in ${h}h ${m}m`;
-      if (m > 0) return `in ${m}m ${s}s`;
-      return `in ${s}s`;
+    const now = clock();
+    const status = reminderStatus(reminder, { isSessionActive, busyIds: new Set(activeBreakIdsKey.split('|')) }, now);
+    switch (status.kind) {
+      case 'inactive': return { label: '', nextAt: '' };
+      case 'in-progress': return { label: 'In Progress', nextAt: '' };
+      case 'paused': return { label: 'Paused', nextAt: '' };
+      case 'done': return { label: 'Done', nextAt: '' };
+      case 'due': return { label: 'Now!', nextAt: '' };
     }
-
-    return '';
-  }, [id, type, lastTriggered, interval, triggerTime, active, isSessionActive, activeBreakIdsKey]);
+    const countdown = formatCountdown(status.at - now);
+    return { label: type === 'recurring' ? countdown : `in ${countdown}`, nextAt: `next at ${formatNextAt(status.at, now)}` };
+  }, [clock, reminder, type, isSessionActive, activeBreakIdsKey]);
 
   const [timeLeft, setTimeLeft] = useState(() => calculateTimeLeft());
 
   useEffect(() => {
-    if (!active) {
-      setTimeLeft('');
-      return;
-    }
-
     // update immediately and then every second
     setTimeLeft(calculateTimeLeft());
+    if (!active) return;
     const timerId = setInterval(() => setTimeLeft(calculateTimeLeft()), 1000);
     return () => clearInterval(timerId);
   }, [calculateTimeLeft, active]);
 
   if (!active) return <div className="reminder-countdown-placeholder"></div>;
 
-  return <div className="reminder-countdown">{timeLeft}</div>;
+  return (
+    <div className="reminder-countdown">
+      {timeLeft.label}
+      {timeLeft.nextAt && <div className="reminder-next-at">{timeLeft.nextAt}</div>}
+    </div>
+  );
 };
 
 const WelcomeScreen = ({ onNameSubmit }: { onNameSubmit: (name: string) => void }) => {
@@ -309,31 +346,72 @@ const ParticleAnimation = () => {
 };
 
 const formatTime = (seconds: number) => {
-  if (seconds < 0) seconds = 0;
-  const mins = Math.floor(seconds / 60).toString().padStart(2, '0');
-  const secs = (seconds % 60).toString().padStart(2, '0');
-  return `${mins}:${secs}`;
+  const total = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${mins}:${secs}` : `${mins}:${secs}`;
+};
+
+const STEP_CUE_MS = 2500;
+
+// True for a moment after a routine moves on to its next step
+const useStepCue = (index: number | undefined) => {
+  const [cue, setCue] = useState(false);
+  const previous = useRef(index);
+
+  useEffect(() => {
+    if (previous.current === index) return;
+    previous.current = index;
+    if (index === undefined) return;
+    setCue(true);
+    navigator.vibrate?.(200);
+    const timeoutId = setTimeout(() => setCue(false), STEP_CUE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [index]);
+
+  return cue;
 };
 
-const getRemaining = (startedAt: number, durationSeconds: number) => {
-  const elapsed = Math.floor((Date.now() - startedAt) / 1000);
-  return durationSeconds - elapsed;
+// Current/next step of a routine break, derived from the same remaining time as the countdown
+const RoutineStatus = ({ activeBreak, remaining, compact = false }: { activeBreak: ActiveBreak; remaining: number; compact?: boolean }) => {
+  const progress = routineProgress(activeBreak.steps ?? [], activeBreak.durationSeconds - Math.max(0, remaining));
+  const cue = useStepCue(progress?.index);
+  if (!progress) return null;
+  const total = activeBreak.steps!.length;
+
+  return (
+    <div className={`routine-status ${compact ? 'compact' : ''} ${cue ? 'cue' : ''}`}>
+      <div className="routine-step">
+        <span className="routine-step-count">{compact ? `${progress.index + 1}/${total}` : `Step ${progress.index + 1} of ${total}`}</span>
+        <span className="routine-step-name">{progress.step.name}</span>
+        <span className="routine-step-time">{formatTime(progress.stepRemaining)}</span>
+      </div>
+      <div className="routine-progress" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress.stepProgress * 100)}>
+        <div style={{ width: `${progress.stepProgress * 100}%` }} />
+      </div>
+      <div className="routine-next">{progress.next ? `Next: ${progress.next.name}` : 'Last step'}</div>
+    </div>
+  );
 };
 
-const FocusScreen = ({ activeBreak, onEnd, onClose }: { activeBreak: ActiveBreak; onEnd: (id: string) => void; onClose: () => void; }) => {
+type AmbientOptions = { sound: AmbientSound | null; volume: number; quietHours: QuietHours | null; dndUntil: number | null };
+
+const FocusScreen = ({ activeBreak, ambient, onEnd, onTogglePause, onClose }: { activeBreak: ActiveBreak; ambient: AmbientOptions; onEnd: (id: string) => void; onTogglePause: (id: string) => void; onClose: () => void; }) => {
+  const clock = useClock();
   // derive remaining deterministically then keep a local ticking state to render every second
-  const initialRemaining = getRemaining(activeBreak.startedAt, activeBreak.durationSeconds);
+  const initialRemaining = getRemaining(activeBreak, clock());
   const [remainingState, setRemainingState] = useState<number>(initialRemaining);
 
   // Update local remaining each second for visual ticker; still call onEnd when <= 0
   useEffect(() => {
-    setRemainingState(getRemaining(activeBreak.startedAt, activeBreak.durationSeconds));
+    setRemainingState(getRemaining(activeBreak, clock()));
     if (initialRemaining <= 0) {
       onEnd(activeBreak.id);
       return;
     }
     const idTick = setInterval(() => {
-      const r = getRemaining(activeBreak.startedAt, activeBreak.durationSeconds);
+      const r = getRemaining(activeBreak, clock());
       setRemainingState(r);
       if (r <= 0) {
         clearInterval(idTick);
@@ -341,7 +419,7 @@ const FocusScreen = ({ activeBreak, onEnd, onClose }: { activeBreak: ActiveBreak
       }
     }, 1000);
     return () => clearInterval(idTick);
-  }, [activeBreak.startedAt, activeBreak.durationSeconds, activeBreak.id, onEnd]);
+  }, [clock, activeBreak, onEnd]);
 
   // Escape / background close handler
   useEffect(() => {
@@ -354,15 +432,29 @@ const FocusScreen = ({ activeBreak, onEnd, onClose }: { activeBreak: ActiveBreak
     return () => window.removeEventListener('keydown', handleEsc);
   }, [onClose]);
 
+  const paused = isPaused(activeBreak);
+
+  // The ambient loop plays while the break runs, outside quiet hours and Do Not Disturb; re-checked every tick
+  const ambientSound = !paused && !holdReason(ambient.quietHours, ambient.dndUntil, clock()) ? ambient.sound : null;
+  useEffect(() => {
+    if (!ambientSound) return;
+    return startAmbient(ambientSound, ambient.volume / 100);
+  }, [ambientSound, ambient.volume]);
+
   return (
-    <div className="focus-screen" onClick={onClose}>
+    <div className={`focus-screen ${paused ? 'paused' : ''}`} onClick={onClose}>
       <div className="focus-animation-bg">
         <ParticleAnimation />
       </div>
       <div className="focus-content" onClick={e => e.stopPropagation()}>
         <h1 className="focus-title">{activeBreak.name}</h1>
             <div className="focus-timer">{formatTime(remainingState)}</div>
-        <button onClick={() => onEnd(activeBreak.id)} className="focus-end-btn">End Break</button>
+        {paused && <div className="focus-paused-label">Paused</div>}
+        {activeBreak.steps && <RoutineStatus activeBreak={activeBreak} remaining={remainingState} />}
+        <div className="focus-buttons">
+          <button onClick={() => onTogglePause(activeBreak.id)} className="focus-pause-btn">{paused ? 'Resume' : 'Pause'}</button>
+          <button onClick={() => onEnd(activeBreak.id)} className="focus-end-btn">End Break</button>
+        </div>
         <div className="focus-close-hint">Press ESC or click background to exit</div>
       </div>
     </div>
@@ -370,18 +462,19 @@ const FocusScreen = ({ activeBreak, onEnd, onClose }: { activeBreak: ActiveBreak
 };
 
 // New Timer Cards
-const ActiveTimerCard = ({ activeBreak, onFinish, onFocus }: { activeBreak: ActiveBreak; onFinish: (id: string) => void; onFocus: (id: string) => void; }) => {
-  const initialRemaining = getRemaining(activeBreak.startedAt, activeBreak.durationSeconds);
+const ActiveTimerCard = ({ activeBreak, onFinish, onTogglePause, onFocus }: { activeBreak: ActiveBreak; onFinish: (id: string) => void; onTogglePause: (id: string) => void; onFocus: (id: string) => void; }) => {
+  const clock = useClock();
+  const initialRemaining = getRemaining(activeBreak, clock());
   const [remainingState, setRemainingState] = useState<number>(initialRemaining);
 
   useEffect(() => {
-    setRemainingState(getRemaining(activeBreak.startedAt, activeBreak.durationSeconds));
+    setRemainingState(getRemaining(activeBreak, clock()));
     if (initialRemaining <= 0) {
       onFinish(activeBreak.id);
       return;
     }
     const idTick = setInterval(() => {
-      const r = getRemaining(activeBreak.startedAt, activeBreak.durationSeconds);
+      const r = getRemaining(activeBreak, clock());
       setRemainingState(r);
       if (r <= 0) {
         clearInterval(idTick);
@@ -389,15 +482,20 @@ const ActiveTimerCard = ({ activeBreak, onFinish, onFocus }: { activeBreak: Acti
       }
     }, 1000);
     return () => clearInterval(idTick);
-  }, [activeBreak.startedAt, activeBreak.durationSeconds, activeBreak.id, onFinish]);
+  }, [clock, activeBreak, onFinish]);
+
+  const paused = isPaused(activeBreak);
 
   return (
-    <div className="active-timer-card">
+    <div className={`active-timer-card ${paused ? 'paused' : ''}`}>
       <div className="timer-card-content">
         <div className="timer-card-info">
           <div className="timer-card-title">{`${activeBreak.name}: ${formatTime(remainingState)}`}</div>
+          {paused && <div className="timer-card-paused">⏸ Paused</div>}
+          {activeBreak.steps && <RoutineStatus activeBreak={activeBreak} remaining={remainingState} compact />}
         </div>
         <div className="timer-card-buttons">
+          <button onClick={() => onTogglePause(activeBreak.id)} className="timer-card-focus" aria-label={paused ? 'Resume' : 'Pause'}>{paused ? '▶' : '⏸'}</button>
           <button onClick={() => onFocus(activeBreak.id)} className="timer-card-focus" aria-label="Focus">✨</button>
           <button onClick={() => onFinish(activeBreak.id)} className="timer-card-action">End</button>
         </div>
@@ -406,6 +504,8 @@ const ActiveTimerCard = ({ activeBreak, onFinish, onFocus }: { activeBreak: Acti
   );
 };
 
+const SNOOZE_MINUTES = [5, 15, 30];
+
 const PendingBreakCard = ({ reminder, onStart, onSkip, onSnooze }: {
     reminder: Reminder;
     onStart: (id: string) => void;
@@ -421,9 +521,7 @@ const PendingBreakCard = ({ reminder, onStart, onSkip, onSnooze }: {
             </div>
             {showSnooze ? (
                 <div className="timer-card-actions snooze-options">
-                    <button onClick={() => onSnooze(reminder.id, 5)}>5m</button>
-                    <button onClick={() => onSnooze(reminder.id, 15)}>15m</button>
-                    <button onClick={() => onSnooze(reminder.id, 30)}>30m</button>
+                    {SNOOZE_MINUTES.map(m => <button key={m} onClick={() => onSnooze(reminder.id, m)}>{m}m</button>)}
                     <button onClick={() => setShowSnooze(false)} className="cancel-snooze">✕</button>
                 </div>
             ) : (
@@ -437,23 +535,53 @@ const PendingBreakCard = ({ reminder, onStart, onSkip, onSnooze }: {
     );
 };
 
+const SnoozeAllBar = ({ count, onSnoozeAll }: { count: number; onSnoozeAll: (minutes: number) => void }) => (
+  <div className="snooze-all-bar">
+    <span>{count} breaks waiting</span>
+    <div className="timer-card-actions snooze-options">
+      <span>Snooze all</span>
+      {SNOOZE_MINUTES.map(m => <button key={m} onClick={() => onSnoozeAll(m)}>{m}m</button>)}
+    </div>
+  </div>
+);
+
+// One prompt for everything that came due during Do Not Disturb or quiet hours
+const CatchUpCard = ({ held, onCatchUp, onDismiss }: { held: HeldBreak[]; onCatchUp: () => void; onDismiss: () => void }) => (
+  <div className="pending-break-card catch-up-card">
+    <div className="timer-card-info">
+      <span>While you weren't disturbed: <strong>{describeHeld(held)}</strong></span>
+    </div>
+    <div className="timer-card-actions">
+      <button onClick={onCatchUp} className="start-action">Catch up</button>
+      <button onClick={onDismiss}>Dismiss</button>
+    </div>
+  </div>
+);
+
 interface ActiveTimersContainerProps {
   pendingBreaks: Reminder[];
   activeBreaks: ActiveBreak[];
+  heldBreaks: HeldBreak[];
   onStart: (id: string) => void;
   onSkip: (id: string) => void;
   onSnooze: (id: string, minutes: number) => void;
+  onSnoozeAll: (minutes: number) => void;
+  onCatchUp: () => void;
+  onDismissHeld: () => void;
   onFinish: (id: string) => void;
+  onTogglePause: (id: string) => void;
   onFocus: (id: string | null) => void;
 }
-const ActiveTimersContainer = ({ pendingBreaks, activeBreaks, onStart, onSkip, onSnooze, onFinish, onFocus }: ActiveTimersContainerProps) => {
-    if (pendingBreaks.length === 0 && activeBreaks.length === 0) return null;
+const ActiveTimersContainer = ({ pendingBreaks, activeBreaks, heldBreaks, onStart, onSkip, onSnooze, onSnoozeAll, onCatchUp, onDismissHeld, onFinish, onTogglePause, onFocus }: ActiveTimersContainerProps) => {
+    if (pendingBreaks.length === 0 && activeBreaks.length === 0 && heldBreaks.length === 0) return null;
 
     return (
         <div className="active-timers-container">
       {activeBreaks.map((b: ActiveBreak) => (
-                <ActiveTimerCard key={b.id} activeBreak={b} onFinish={onFinish} onFocus={onFocus} />
+                <ActiveTimerCard key={b.id} activeBreak={b} onFinish={onFinish} onTogglePause={onTogglePause} onFocus={onFocus} />
             ))}
+            {heldBreaks.length > 0 && <CatchUpCard held={heldBreaks} onCatchUp={onCatchUp} onDismiss={onDismissHeld} />}
+            {pendingBreaks.length > 1 && <SnoozeAllBar count={pendingBreaks.length} onSnoozeAll={onSnoozeAll} />}
             {pendingBreaks.map((p: Reminder) => (
                 <PendingBreakCard key={p.id} reminder={p} onStart={onStart} onSkip={onSkip} onSnooze={onSnooze} />
             ))}
@@ -461,46 +589,1004 @@ const ActiveTimersContainer = ({ pendingBreaks, activeBreaks, onStart, onSkip, o
     );
 };
 
+const describeEvent = (event: BreakEvent) => {
+  const label = EVENT_LABELS[event.type];
+  switch (event.type) {
+    case 'finished':
+    case 'ended_early':
+    case 'abandoned':
+      return `${label} · ${formatTime(event.actualSeconds ?? 0)} of ${formatTime(event.plannedSeconds ?? 0)}`;
+    case 'started':
+      return `${label} · ${formatTime(event.plannedSeconds ?? 0)} planned`;
+    case 'snoozed':
+      return `${label} · ${event.snoozeMinutes ?? 0} min`;
+    default:
+      return label;
+  }
+};
+
+const HistoryView = ({ events }: { events: BreakEvent[] }) => {
+  const today = useToday();
+  const byDay = useMemo(() => groupEventsByDay(events), [events]);
+  const days = useMemo(() => {
+    const keys = [...byDay.keys()];
+    if (!keys.includes(today)) keys.push(today);
+    return keys.sort().reverse();
+  }, [byDay, today]);
+  const [selectedDay, setSelectedDay] = useState(today);
+
+  // newest first
+  const dayEvents = useMemo(() => [...(byDay.get(selectedDay) ?? [])].reverse(), [byDay, selectedDay]);
+
+  return (
+    <div className="history-view">
+      <div className="input-group-labeled">
+        <label htmlFor="history-day">Day</label>
+        <select id="history-day" value={selectedDay} onChange={e => setSelectedDay(e.target.value)}>
+          {days.map(d => (
+            <option key={d} value={d}>{d === today ? 'Today' : d} ({byDay.get(d)?.length ?? 0})</option>
+          ))}
+        </select>
+      </div>
+      {dayEvents.length === 0 ? (
+        <p className="history-empty">No activity recorded for this day.</p>
+      ) : (
+        <ul className="history-list">
+          {dayEvents.map(e => (
+            <li key={e.id} className={`history-item history-${e.type}`}>
+              <span className="history-time">{new Date(e.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              <div className="history-info">
+                <div className="history-name">{e.reminderName}</div>
+                <div className="history-details">{describeEvent(e)}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// "4 done · 1 cut short · 2 skipped", leaving out outcomes that never happened
+const describeRate = (rate: ReminderRate) => [
+  `${rate.completed} done`,
+  rate.incomplete > 0 && `${rate.incomplete} cut short`,
+  rate.skipped > 0 && `${rate.skipped} skipped`,
+  rate.snoozed > 0 && `${rate.snoozed} snoozed`,
+  rate.missed > 0 && `${rate.missed} missed`,
+].filter(Boolean).join(' · ');
+
+const TREND_LENGTH: Record<TrendUnit, number> = { day: 14, week: 8, month: 6 };
+const HEATMAP_WEEKS = 16;
+
+const AnalyticsView = ({ events, minCompletion }: { events: BreakEvent[]; minCompletion: number }) => {
+  const [unit, setUnit] = useState<TrendUnit>('day');
+  const clock = useClock();
+  // Recomputes the day-based charts when the day rolls over
+  const today = useToday();
+
+  const trend = useMemo(() => completionTrend(events, unit, TREND_LENGTH[unit], clock(), minCompletion), [events, unit, minCompletion, clock, today]);
+  const rates = useMemo(() => reminderRates(events, minCompletion), [events, minCompletion]);
+  const focusMinutes = useMemo(() => totalFocusMinutes(events, minCompletion), [events, minCompletion]);
+  const skipHours = useMemo(() => topSkipHours(events), [events]);
+  const heatmap = useMemo(() => completionHeatmap(events, HEATMAP_WEEKS, clock(), minCompletion), [events, minCompletion, clock, today]);
+
+  const trendMax = Math.max(1, ...trend.map(b => b.count));
+  const heatmapMax = Math.max(1, ...heatmap.flat().map(d => d.count));
+  const totals = rates.reduce((acc, r) => ({ done: acc.done + r.completed, all: acc.all + r.total }), { done: 0, all: 0 });
+  const overallRate = totals.all > 0 ? Math.round((totals.done / totals.all) * 100) : 0;
+
+  return (
+    <div className="analytics-view">
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{focusMinutes}</div>
+          <div className="stat-label">Focus Minutes</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{overallRate}%</div>
+          <div className="stat-label">Completion Rate</div>
+        </div>
+      </div>
+
+      <section className="analytics-section">
+        <h4>Completions</h4>
+        <div className="type-toggle">
+          {(['day', 'week', 'month'] as TrendUnit[]).map(u => (
+            <button key={u} type="button" className={unit === u ? 'active' : ''} onClick={() => setUnit(u)}>
+              {u === 'day' ? 'Daily' : u === 'week' ? 'Weekly' : 'Monthly'}
+            </button>
+          ))}
+        </div>
+        <div className="trend-chart">
+          {trend.map(b => (
+            <div key={b.key} className="trend-bar" title={`${b.label}: ${b.count}`}>
+              <div className="trend-bar-fill" style={{ height: `${(b.count / trendMax) * 100}%` }}></div>
+              <span className="trend-bar-label">{b.label}</span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="analytics-section">
+        <h4>Activity</h4>
+        <div className="heatmap">
+          {heatmap.map((week, w) => (
+            <div key={w} className="heatmap-week">
+              {week.map(d => (
+                <div
+                  key={d.key}
+                  className={`heatmap-day ${d.inFuture ? 'future' : ''}`}
+                  title={`${d.key}: ${d.count}`}
+                  style={d.count > 0 ? { opacity: 0.25 + 0.75 * (d.count / heatmapMax) } : undefined}
+                  data-active={d.count > 0}
+                ></div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="analytics-section">
+        <h4>By Reminder</h4>
+        {rates.length === 0 ? <p className="history-empty">No completed, skipped or snoozed breaks yet.</p> : (
+          <ul className="rate-list">
+            {rates.map(r => (
+              <li key={r.reminderId} className="rate-item">
+                <div className="rate-header">
+                  <span className="history-name">{r.name}</span>
+                  <span className="rate-value">{Math.round(r.rate * 100)}%</span>
+                </div>
+                <div className="rate-bar"><div className="rate-bar-fill" style={{ width: `${r.rate * 100}%` }}></div></div>
+                <div className="history-details">{describeRate(r)}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="analytics-section">
+        <h4>Most Skipped Hours</h4>
+        {skipHours.length === 0 ? <p className="history-empty">No skipped breaks yet.</p> : (
+          <ul className="rate-list">
+            {skipHours.map(h => (
+              <li key={h.hour} className="rate-header">
+                <span>{formatHour(h.hour)}–{formatHour((h.hour + 1) % 24)}</span>
+                <span className="rate-value">{h.count} skipped</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+const ProgressRing = ({ value, max, size = 44 }: { value: number; max: number; size?: number }) => {
+  const stroke = 4;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const fraction = Math.min(1, value / max);
+  return (
+    <svg className={`progress-ring ${fraction >= 1 ? 'complete' : ''}`} width={size} height={size} role="img" aria-label={`${value} of ${max} today`}>
+      <circle className="progress-ring-track" cx={size / 2} cy={size / 2} r={radius} strokeWidth={stroke} fill="none" />
+      <circle
+        className="progress-ring-fill"
+        cx={size / 2} cy={size / 2} r={radius} strokeWidth={stroke} fill="none"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - fraction)}
+        transform={`rotate(-90 ${size / 2} ${size / 2})`}
+      />
+      <text x="50%" y="50%" dominantBaseline="central" textAnchor="middle">{value}/{max}</text>
+    </svg>
+  );
+};
+
+const GOAL_DAY_TITLES = { met: 'goal met', missed: 'goal missed', frozen: 'missed, streak kept by a freeze', rest: 'rest day', today: 'in progress' };
+
+const HabitGoal = ({ progress }: { progress: HabitProgress }) => (
+  <div className="habit-goal">
+    <ProgressRing value={progress.today} max={progress.goal} />
+    <div className="habit-goal-info">
+      <div className="habit-streak" title="Days in a row the daily goal was met">
+        🔥 {progress.streak}
+        {progress.freezes > 0 && <span className="streak-freezes" title="Streak freezes: each one covers a missed day"> 🧊 {progress.freezes}</span>}
+      </div>
+      <div className="goal-days">
+        {progress.days.map(d => (
+          <span key={d.key} className={`goal-day ${d.status}`} title={`${d.key}: ${d.count}/${progress.goal}, ${GOAL_DAY_TITLES[d.status]}`}></span>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+const ReminderOutcome = ({ rate }: { rate?: ReminderRate }) => (
+  <div className="reminder-outcome" title={rate && describeRate(rate)}>
+    {rate ? `✓ ${rate.completed} completed · ${Math.round(rate.rate * 100)}% success` : 'No breaks yet'}
+  </div>
+);
+
+const DayPicker = ({ days, onChange }: { days: number[]; onChange: (days: number[]) => void }) => (
+  <div className="day-picker">
+    {WEEKDAY_ORDER.map(d => (
+      <button
+        key={d}
+        type="button"
+        className={days.includes(d) ? 'active' : ''}
+        aria-pressed={days.includes(d)}
+        onClick={() => onChange(days.includes(d) ? days.filter(x => x !== d) : [...days, d].sort())}
+      >
+        {WEEKDAY_LABELS[d].slice(0, 2)}
+      </button>
+    ))}
+  </div>
+);
+
+// A number with a minutes/seconds unit; `seconds` is always the value in seconds
+const DurationInput = ({ id, label, seconds, onChange }: { id: string; label: string; seconds: number; onChange: (seconds: number) => void }) => {
+  const [unit, setUnit] = useState<60 | 1>(seconds % 60 === 0 ? 60 : 1);
+  const shown = seconds / unit;
+
+  // Values that aren't whole minutes (e.g. from quick add) are shown in seconds
+  useEffect(() => {
+    if (seconds % 60 !== 0) setUnit(1);
+  }, [seconds]);
+
+  return (
+    <div className="input-group-labeled">
+      <label htmlFor={id}>{label}</label>
+      <div className="duration-input">
+        <input id={id} type="number" value={shown} onChange={e => {
+          const n = e.target.value === '' ? 0 : parseFloat(e.target.value);
+          onChange(Number.isNaN(n) ? 0 : Math.round(n * unit));
+        }} required min={1 / unit} step="any"/>
+        <select aria-label={`${label} unit`} value={unit} onChange={e => {
+          // Keep the number as typed and change what it means
+          const next = Number(e.target.value) as 60 | 1;
+          setUnit(next);
+          onChange(Math.round(shown * next));
+        }}>
+          <option value={60}>min</option>
+          <option value={1}>sec</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+const RoutineEditor = ({ steps, onChange }: { steps: RoutineStep[]; onChange: (steps: RoutineStep[]) => void }) => {
+  const update = (index: number, change: Partial<RoutineStep>) =>
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...change } : step)));
+  const moveUp = (index: number) =>
+    onChange(steps.map((step, i) => (i === index - 1 ? steps[index] : i === index ? steps[index - 1] : step)));
+
+  return (
+    <div className="routine-editor">
+      {steps.map((step, i) => (
+        <div key={i} className="routine-step-row">
+          <input type="text" aria-label={`Step ${i + 1} name`} placeholder={`Step ${i + 1}, e.g. Neck rolls`} value={step.name} onChange={e => update(i, { name: e.target.value })}/>
+          <input type="number" aria-label={`Step ${i + 1} seconds`} value={step.seconds} onChange={e => {
+            const n = e.target.value === '' ? 0 : parseInt(e.target.value, 10);
+            update(i, { seconds: Number.isNaN(n) ? 0 : n });
+          }} min="1"/>
+          <span className="routine-step-unit">s</span>
+          <button type="button" className="secondary-action" onClick={() => moveUp(i)} disabled={i === 0} aria-label={`Move step ${i + 1} up`}>↑</button>
+          <button type="button" className="secondary-action" onClick={() => onChange(steps.filter((_, j) => j !== i))} aria-label={`Remove step ${i + 1}`}>✕</button>
+        </div>
+      ))}
+      <button type="button" className="secondary-action" onClick={() => onChange([...steps, { name: '', seconds: 30 }])}>+ Add Step</button>
+    </div>
+  );
+};
+
+const QuickAdd = ({ onAdd, onEdit }: { onAdd: (draft: QuickAddDraft) => void; onEdit: (draft: QuickAddDraft) => void }) => {
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<QuickAddResult | null>(null);
+  const clock = useClock();
+
+  const handleParse = (e: React.FormEvent) => {
+    e.preventDefault();
+    setResult(parseQuickAdd(text, clock()));
+  };
+
+  const finish = (handler: (draft: QuickAddDraft) => void, draft: QuickAddDraft) => {
+    handler(draft);
+    setText('');
+    setResult(null);
+  };
+
+  return (
+    <div className="quick-add">
+      <form onSubmit={handleParse} className="quick-add-row">
+        <input
+          type="text"
+          aria-label="Quick add"
+          placeholder={`e.g. ${QUICK_ADD_EXAMPLES[0]}`}
+          value={text}
+          onChange={e => { setText(e.target.value); setResult(null); }}
+        />
+        <button type="submit" disabled={!text.trim()}>Parse</button>
+      </form>
+      {result && !result.ok && <p className="form-error">{result.error}</p>}
+      {result?.ok && (
+        <div className="quick-add-preview">
+          <p><strong>{result.draft.type === 'recurring' ? '🔁' : '⏰'} {result.draft.name}</strong></p>
+          <p className="schedule-preview">{describeSchedule(result.draft)}</p>
+          {result.notes.map(note => <p key={note} className="schedule-preview">{note}</p>)}
+          <div className="modal-actions">
+            <button type="button" onClick={() => finish(onAdd, result.draft)}>Add Reminder</button>
+            <button type="button" onClick={() => finish(onEdit, result.draft)} className="secondary-action">Edit in Form</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const NotificationPrompt = ({ onEnable, onDismiss }: { onEnable: () => void; onDismiss: () => void }) => (
+  <div className="notification-prompt">
+    <span>Get break reminders even when this tab is in the background.</span>
+    <div className="timer-card-actions">
+      <button onClick={onEnable} className="start-action">Enable notifications</button>
+      <button onClick={onDismiss}>Not now</button>
+    </div>
+  </div>
+);
+
+const UpdateNotice = ({ onReload, onDismiss }: { onReload: () => void; onDismiss: () => void }) => (
+  <div className="notification-prompt update-notice">
+    <span>A new version of Habit-Tracking-Bud is ready.</span>
+    <div className="timer-card-actions">
+      <button onClick={onReload} className="start-action">Reload</button>
+      <button onClick={onDismiss}>Later</button>
+    </div>
+  </div>
+);
+
+type SyncControls = {
+  state: SyncState | null;
+  syncing: boolean;
+  error: SyncError | null;
+  onStart: (code: string) => void;
+  onStop: () => void;
+  onSyncNow: () => void;
+};
+
+const SyncSection = ({ sync }: { sync: SyncControls }) => {
+  const [code, setCode] = useState('');
+  const { state } = sync;
+
+  if (!state) {
+    return (
+      <section className="analytics-section">
+        <h4>Sync across devices</h4>
+        <p className="schedule-preview">Keep reminders, stats and history the same on all your devices. Everything still works offline; changes are exchanged when there's a connection.</p>
+        <div className="modal-actions">
+          <button onClick={() => sync.onStart(newSyncCode())}>Turn on sync</button>
+        </div>
+        <div className="input-group-labeled">
+          <label htmlFor="sync-code">Or join with the code from another device</label>
+          <input id="sync-code" value={code} placeholder="Sync code" onChange={e => setCode(e.target.value)} />
+        </div>
+        <div className="modal-actions">
+          <button onClick={() => sync.onStart(code.trim())} disabled={!isSyncSpace(code.trim())} className="secondary-action">Join</button>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="analytics-section">
+      <h4>Sync across devices</h4>
+      <div className="input-group-labeled">
+        <label htmlFor="sync-code">Sync code</label>
+        <input id="sync-code" value={state.space} readOnly onFocus={e => e.target.select()} />
+      </div>
+      <p className="schedule-preview">Enter this code on your other devices. Anyone who has it can see and change your data.</p>
+      <p className="schedule-preview">
+        {sync.syncing ? 'Syncing…' : state.lastSyncedAt ? `Last synced ${new Date(state.lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+      </p>
+      {sync.error && <p className="form-error">{sync.error.message}</p>}
+      <div className="modal-actions">
+        <button onClick={sync.onSyncNow} disabled={sync.syncing}>Sync now</button>
+        <button onClick={sync.onStop} className="secondary-action">Turn off sync</button>
+      </div>
+    </section>
+  );
+};
+
+const BackupPanel = ({ data, sync, onRestore, onClose }: { data: BackupData; sync: SyncControls; onRestore: (data: BackupData, mode: ImportMode) => void; onClose: () => void }) => {
+  const [bundle, setBundle] = useState<BackupBundle | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const preview = useMemo(() => (bundle ? previewImport(data, bundle, mode) : null), [data, bundle, mode]);
+
+  const handleExportJson = () => {
+    const json = JSON.stringify(createBackup(data), null, 2);
+    downloadFile(`habit-tracking-bud-${dayKey(Date.now())}.json`, json, 'application/json');
+  };
+
+  const handleExportIcs = () => {
+    downloadFile('habit-tracking-bud-reminders.ics', toICalendar(data.reminders), 'text/calendar');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    setMessage('');
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    if (result.ok) {
+      setBundle(result.bundle);
+      setError('');
+    } else {
+      setBundle(null);
+      setError(result.error);
+    }
+  };
+
+  const handleImport = () => {
+    if (!bundle) return;
+    onRestore(applyImport(data, bundle, mode), mode);
+    setBundle(null);
+    setMessage(mode === 'replace' ? 'Data replaced from backup.' : 'Backup merged.');
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal card" role="dialog" aria-label="Backup and restore" onClick={e => e.stopPropagation()}>
+        <h3>Backup &amp; Restore</h3>
+
+        <section className="analytics-section">
+          <h4>Export</h4>
+          <div className="modal-actions">
+            <button onClick={handleExportJson}>Backup (.json)</button>
+            <button onClick={handleExportIcs} className="secondary-action">Calendar (.ics)</button>
+          </div>
+        </section>
+
+        <section className="analytics-section">
+          <h4>Import</h4>
+          <input type="file" accept=".json,application/json" onChange={handleFile} aria-label="Choose backup file" />
+          {error && <p className="form-error">{error}</p>}
+          {message && <p className="schedule-preview">{message}</p>}
+          {bundle && preview && (
+            <>
+              <div className="type-toggle">
+                <button type="button" className={mode === 'merge' ? 'active' : ''} onClick={() => setMode('merge')}>Merge</button>
+                <button type="button" className={mode === 'replace' ? 'active' : ''} onClick={() => setMode('replace')}>Replace</button>
+              </div>
+              <ul className="import-preview">
+                <li>Backup from {preview.exportedAt ? new Date(preview.exportedAt).toLocaleString() : 'an unknown date'}</li>
+                <li>{preview.reminders.added} reminders to add{preview.reminders.duplicates > 0 && `, ${preview.reminders.duplicates} already present`}</li>
+                {preview.reminders.renamed > 0 && <li>{preview.reminders.renamed} reminders clash with existing ids and will be imported as copies</li>}
+                <li>{preview.events.added} history entries to add{preview.events.duplicates > 0 && `, ${preview.events.duplicates} already present`}</li>
+                {mode === 'replace' && <li className="form-error">Replace discards all current reminders, history and settings.</li>}
+              </ul>
+              <div className="modal-actions">
+                <button onClick={handleImport}>{mode === 'replace' ? 'Replace Data' : 'Merge Backup'}</button>
+                <button onClick={() => setBundle(null)} className="secondary-action">Cancel</button>
+              </div>
+            </>
+          )}
+        </section>
+
+        <SyncSection sync={sync} />
+
+        <button onClick={onClose} className="secondary-action">Close</button>
+      </div>
+    </div>
+  );
+};
+
+const ProfilesPanel = ({ profiles, onClose }: { profiles: ProfileControls; onClose: () => void }) => {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    profiles.onAdd(newName);
+    onClose();
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming || !renaming.name.trim()) return;
+    profiles.onRename(renaming.id, renaming.name);
+    setRenaming(null);
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal card" role="dialog" aria-label="Profiles" onClick={e => e.stopPropagation()}>
+        <h3>Profiles</h3>
+
+        <section className="analytics-section">
+          <p className="schedule-preview">Each profile has its own reminders, stats, history, settings and theme. Only the open profile's reminders run.</p>
+          <ul className="profile-list">
+            {profiles.list.map(p => (
+              <li key={p.id}>
+                {renaming?.id === p.id ? (
+                  <form onSubmit={handleRename} className="input-group">
+                    <input value={renaming.name} maxLength={MAX_PROFILE_NAME_LENGTH} aria-label="Profile name" autoFocus onChange={e => setRenaming({ id: p.id, name: e.target.value })} />
+                    <button type="submit" disabled={!renaming.name.trim()}>Save</button>
+                    <button type="button" onClick={() => setRenaming(null)} className="secondary-action">Cancel</button>
+                  </form>
+                ) : (
+                  <>
+                    <span>{p.name}{p.id === profiles.active.id && <span className="profile-open"> · open</span>}</span>
+                    <div className="modal-actions">
+                      {p.id !== profiles.active.id && <button onClick={() => { profiles.onSwitch(p.id); onClose(); }}>Open</button>}
+                      <button onClick={() => { setRenaming({ id: p.id, name: p.name }); setConfirmDelete(null); }} className="secondary-action">Rename</button>
+                      {confirmDelete === p.id
+                        ? <button onClick={() => profiles.onDelete(p.id)} className="danger-action">Delete for good</button>
+                        : <button onClick={() => setConfirmDelete(p.id)} className="secondary-action">Delete</button>}
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          {confirmDelete && <p className="form-error">Deleting a profile removes its reminders, stats and history from this device.</p>}
+        </section>
+
+        <section className="analytics-section">
+          <h4>New profile</h4>
+          <form onSubmit={handleAdd} className="input-group">
+            <input value={newName} maxLength={MAX_PROFILE_NAME_LENGTH} placeholder="Name, e.g. Work" aria-label="New profile name" onChange={e => setNewName(e.target.value)} />
+            <button type="submit" disabled={!newName.trim()}>Add &amp; open</button>
+          </form>
+        </section>
+
+        <button onClick={onClose} className="secondary-action">Close</button>
+      </div>
+    </div>
+  );
+};
+
+const DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6];
+const DEFAULT_QUIET_HOURS: QuietHours = { start: '22:00', end: '07:00' };
+const DEFAULT_WORK_SCHEDULE: WorkSchedule = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' };
+const MIN_IDLE_MINUTES = 2;
+const QUOTE_LANGUAGES = [
+  ['en', 'English'], ['es', 'Español'], ['fr', 'Français'], ['de', 'Deutsch'], ['it', 'Italiano'], ['pt', 'Português'], ['nl', 'Nederlands'], ['ja', '日本語'],
+];
+
+const SettingsPanel = ({ settings, onChange, onClose }: { settings: Settings; onChange: (change: Partial<Settings>) => void; onClose: () => void }) => (
+  <div className="modal-backdrop" onClick={onClose}>
+    <div className="modal card" role="dialog" aria-label="Settings" onClick={e => e.stopPropagation()}>
+      <h3>Settings</h3>
+
+      <section className="analytics-section">
+        <h4>Paused breaks</h4>
+        <div className="input-group-labeled">
+          <label htmlFor="auto-abandon">Abandon a break after it has been paused for (min)</label>
+          <input id="auto-abandon" type="number" min="1" placeholder="Never" value={settings.autoAbandonMinutes ?? ''} onChange={e => {
+            const n = parseInt(e.target.value, 10);
+            onChange({ autoAbandonMinutes: Number.isNaN(n) || n <= 0 ? null : n });
+          }}/>
+        </div>
+        <p className="schedule-preview">Leave empty to keep paused breaks until you resume or end them.</p>
+      </section>
+
+      <section className="analytics-section">
+        <h4>Stats</h4>
+        <div className="input-group-labeled">
+          <label htmlFor="min-completion">A break ended early still counts as completed from (%)</label>
+          <input id="min-completion" type="number" min="1" max="100" value={settings.minCompletionPercent} onChange={e => {
+            const n = parseInt(e.target.value, 10);
+            if (!Number.isNaN(n)) onChange({ minCompletionPercent: Math.min(100, Math.max(1, n)) });
+          }}/>
+        </div>
+        <p className="schedule-preview">Breaks that run their full time always count; abandoned ones never do.</p>
+      </section>
+
+      <section className="analytics-section">
+        <h4>Streaks</h4>
+        <div className="input-group-labeled">
+          <label htmlFor="day-start">A new day starts at</label>
+          <select id="day-start" value={settings.dayStartHour} onChange={e => onChange({ dayStartHour: Number(e.target.value) })}>
+            {DAY_START_HOURS.map(h => <option key={h} value={h}>{h === 0 ? 'Midnight' : `${h}:00`}</option>)}
+          </select>
+        </div>
+        <label className="checkbox-label">
+          <input type="checkbox" checked={settings.skipWeekends} onChange={e => onChange({ skipWeekends: e.target.checked })}/>
+          Weekends don't break streaks
+        </label>
+        <p className="schedule-preview">Every {FREEZE_EVERY_DAYS} streak days earn a freeze (up to {MAX_FREEZES}) that covers one missed day.</p>
+      </section>
+
+      <section className="analytics-section">
+        <h4>Sounds</h4>
+        {SOUND_CUES.map(cue => {
+          const sound = settings.sounds[cue];
+          const setSound = (change: Partial<typeof sound>) => onChange({ sounds: { ...settings.sounds, [cue]: { ...sound, ...change } } });
+          return (
+            <div key={cue} className="sound-row">
+              <label className="checkbox-label">
+                <input type="checkbox" checked={!sound.muted} onChange={e => setSound({ muted: !e.target.checked })}/>
+                {CUE_LABELS[cue]}
+              </label>
+              <input type="range" min="0" max="100" value={sound.volume} disabled={sound.muted} aria-label={`${CUE_LABELS[cue]} volume`} onChange={e => setSound({ volume: Number(e.target.value) })}/>
+              <button type="button" onClick={() => previewCue(cue, sound.volume / 100)} disabled={sound.muted} aria-label={`Play ${CUE_LABELS[cue]}`}>🔊</button>
+            </div>
+          );
+        })}
+        <div className="sound-row">
+          <label htmlFor="ambient-sound">Focus ambience</label>
+          <select id="ambient-sound" value={settings.ambientSound ?? ''} onChange={e => onChange({ ambientSound: (e.target.value || null) as AmbientSound | null })}>
+            <option value="">None</option>
+            {AMBIENT_SOUNDS.map(a => <option key={a} value={a}>{AMBIENT_LABELS[a]}</option>)}
+          </select>
+          <input type="range" min="0" max="100" value={settings.ambientVolume} disabled={!settings.ambientSound} aria-label="Ambience volume" onChange={e => onChange({ ambientVolume: Number(e.target.value) })}/>
+        </div>
+        <p className="schedule-preview">Ambience plays in the focus view while a break runs.</p>
+      </section>
+
+      <section className="analytics-section">
+        <h4>Daily quote</h4>
+        <div className="input-group-labeled">
+          <label htmlFor="quote-theme">Theme</label>
+          <select id="quote-theme" value={settings.quoteTheme} onChange={e => onChange({ quoteTheme: e.target.value as QuoteTheme })}>
+            {QUOTE_THEMES.map(t => <option key={t} value={t}>{QUOTE_THEME_LABELS[t]}</option>)}
+          </select>
+        </div>
+        <div className="input-group-labeled">
+          <label htmlFor="quote-language">Language</label>
+          <select id="quote-language" value={settings.quoteLanguage ?? ''} onChange={e => onChange({ quoteLanguage: e.target.value || null })}>
+            <option value="">Same as the browser</option>
+            {QUOTE_LANGUAGES.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+          </select>
+        </div>
+        <p className="schedule-preview">Quotes take the names of your active reminders into account and don't repeat recent ones.</p>
+      </section>
+
+      <section className="analytics-section">
+        <h4>Workday</h4>
+        <label className="checkbox-label">
+          <input type="checkbox" checked={settings.workSchedule !== null} onChange={e => onChange({ workSchedule: e.target.checked ? DEFAULT_WORK_SCHEDULE : null })}/>
+          Start and end the day on a schedule
+        </label>
+        {settings.workSchedule && (<>
+          <DayPicker days={settings.workSchedule.days} onChange={days => onChange({ workSchedule: { ...settings.workSchedule!, days } })} />
+          <div className="quiet-hours">
+            <input type="time" aria-label="Workday starts" value={settings.workSchedule.start} onChange={e => e.target.value && onChange({ workSchedule: { ...settings.workSchedule!, start: e.target.value } })}/>
+            <input type="time" aria-label="Workday ends" value={settings.workSchedule.end} onChange={e => e.target.value && onChange({ workSchedule: { ...settings.workSchedule!, end: e.target.value } })}/>
+          </div>
+          {settings.workSchedule.end <= settings.workSchedule.start && <p className="form-error">The workday must end after it starts.</p>}
+        </>)}
+        <div className="input-group-labeled">
+          <label htmlFor="idle-minutes">Pause recurring reminders when away for (min)</label>
+          <input id="idle-minutes" type="number" min={MIN_IDLE_MINUTES} placeholder="Never" value={settings.idleMinutes ?? ''} onChange={e => {
+            const n = parseInt(e.target.value, 10);
+            onChange({ idleMinutes: Number.isNaN(n) || n <= 0 ? null : Math.max(MIN_IDLE_MINUTES, n) });
+          }}/>
+        </div>
+        <p className="schedule-preview">
+          You count as away when the app is on screen but untouched, or the computer was asleep. Countdowns start over when you're back instead of piling up overdue breaks.
+        </p>
+      </section>
+
+      <section className="analytics-section">
+        <h4>Do Not Disturb</h4>
+        <label className="checkbox-label">
+          <input type="checkbox" checked={settings.quietHours !== null} onChange={e => onChange({ quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null })}/>
+          Quiet hours
+        </label>
+        {settings.quietHours && (
+          <div className="quiet-hours">
+            <input type="time" aria-label="Quiet from" value={settings.quietHours.start} onChange={e => e.target.value && onChange({ quietHours: { ...settings.quietHours!, start: e.target.value } })}/>
+            <input type="time" aria-label="Quiet until" value={settings.quietHours.end} onChange={e => e.target.value && onChange({ quietHours: { ...settings.quietHours!, end: e.target.value } })}/>
+          </div>
+        )}
+        <div className="input-group-labeled">
+          <label htmlFor="held-reminders">Reminders that come due during Do Not Disturb or quiet hours</label>
+          <select id="held-reminders" value={settings.heldReminders} onChange={e => onChange({ heldReminders: e.target.value as HeldReminders })}>
+            <option value="catch-up">Collect them into one catch-up prompt</option>
+            <option value="drop">Drop them</option>
+          </select>
+        </div>
+        <p className="schedule-preview">No sounds play and no reminders interrupt you during quiet hours. Turn on Do Not Disturb for a while with 🔕.</p>
+      </section>
+
+      <button onClick={onClose} className="secondary-action">Close</button>
+    </div>
+  </div>
+);
+
+const DndPanel = ({ dndUntil, heldReminders, onChange, onClose }: { dndUntil: number | null; heldReminders: HeldReminders; onChange: (until: number | null) => void; onClose: () => void }) => {
+  const clock = useClock();
+  const [untilTime, setUntilTime] = useState('');
+  const set = (until: number | null) => {
+    onChange(until);
+    onClose();
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal card" role="dialog" aria-label="Do Not Disturb" onClick={e => e.stopPropagation()}>
+        <h3>Do Not Disturb</h3>
+        {dndUntil !== null && isDndActive(dndUntil, clock()) && (
+          <div className="dnd-status">
+            <span>On until {formatNextAt(dndUntil, clock())}</span>
+            <button onClick={() => set(null)}>Turn off</button>
+          </div>
+        )}
+        <div className="dnd-presets">
+          {DND_PRESET_MINUTES.map(m => (
+            <button key={m} onClick={() => set(clock() + m * 60 * 1000)}>{m < 60 ? `${m} min` : `${m / 60} h`}</button>
+          ))}
+          <button onClick={() => set(dndUntilTomorrow(clock()))}>Until tomorrow</button>
+        </div>
+        <form className="dnd-until" onSubmit={e => { e.preventDefault(); if (untilTime) set(dndUntilTime(untilTime, clock())); }}>
+          <label htmlFor="dnd-until">Until</label>
+          <input id="dnd-until" type="time" value={untilTime} onChange={e => setUntilTime(e.target.value)} required/>
+          <button type="submit">Set</button>
+        </form>
+        <p className="schedule-preview">
+          {heldReminders === 'drop' ? 'Reminders that come due meanwhile are dropped.' : 'Reminders that come due meanwhile wait in one catch-up prompt.'} Change this in Settings.
+        </p>
+        <button onClick={onClose} className="secondary-action">Close</button>
+      </div>
+    </div>
+  );
+};
+
+const DndNotice = ({ reason, dndUntil, quietHours, onTurnOff }: { reason: 'dnd' | 'quiet'; dndUntil: number | null; quietHours: QuietHours | null; onTurnOff: () => void }) => {
+  const clock = useClock();
+  return (
+    <div className="notification-prompt dnd-notice">
+      <span>🔕 {reason === 'dnd' && dndUntil !== null ? `Do Not Disturb until ${formatNextAt(dndUntil, clock())}` : `Quiet hours until ${quietHours?.end}`}</span>
+      {reason === 'dnd' && (
+        <div className="timer-card-actions">
+          <button onClick={onTurnOff}>Turn off</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DaySummaryPanel = ({ summaries, initialDate, onClose }: { summaries: DaySummary[]; initialDate: string | null; onClose: () => void }) => {
+  const [date, setDate] = useState(initialDate);
+  const [message, setMessage] = useState('');
+  const summary = summaries.find(s => s.date === date) ?? summaries[0];
+
+  const handleCopy = async (format: 'text' | 'markdown') => {
+    try {
+      await navigator.clipboard.writeText(summaryToText(summary, format));
+      setMessage(format === 'markdown' ? 'Copied as Markdown.' : 'Copied as text.');
+    } catch {
+      setMessage('The browser didn’t allow copying to the clipboard.');
+    }
+  };
+
+  const lines = summary ? summaryLines(summary) : null;
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal card" role="dialog" aria-label="Day summary" onClick={e => e.stopPropagation()}>
+        <h3>Day summary</h3>
+        {!summary || !lines ? (
+          <p className="history-empty">No summaries yet. One is saved each time you end the day.</p>
+        ) : (<>
+          {summaries.length > 1 && (
+            <div className="input-group-labeled">
+              <label htmlFor="summary-day">Day</label>
+              <select id="summary-day" value={summary.date} onChange={e => { setDate(e.target.value); setMessage(''); }}>
+                {summaries.map(s => <option key={s.date} value={s.date}>{s.date}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="stats-grid">
+            <div className="stat-item">
+              <div className="stat-value">{summary.completed}</div>
+              <div className="stat-label">Completed</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{summary.breakMinutes}</div>
+              <div className="stat-label">Break minutes</div>
+            </div>
+            <div className="stat-item">
+              <div className="stat-value">{summary.streak} 🔥</div>
+              <div className="stat-label">{summary.streakExtended ? 'Streak, extended' : 'Streak, not extended'}</div>
+            </div>
+          </div>
+          <ul className="summary-lines">
+            <li>{lines.completed}</li>
+            <li>{lines.stretch}</li>
+            <li>{lines.average}</li>
+          </ul>
+          {summary.reminders.length > 0 && (
+            <table className="summary-table">
+              <thead>
+                <tr><th>Reminder</th><th>Completed</th><th>Skipped</th><th>Snoozed</th></tr>
+              </thead>
+              <tbody>
+                {summary.reminders.map(r => (
+                  <tr key={r.reminderId}><td>{r.name}</td><td>{r.completed}</td><td>{r.skipped}</td><td>{r.snoozed}</td></tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="modal-actions">
+            <button onClick={() => handleCopy('text')} className="secondary-action">Copy as text</button>
+            <button onClick={() => handleCopy('markdown')} className="secondary-action">Copy as Markdown</button>
+          </div>
+          {message && <p className="schedule-preview">{message}</p>}
+        </>)}
+        <button onClick={onClose} className="secondary-action">Close</button>
+      </div>
+    </div>
+  );
+};
+
+const QuoteFooter = ({ quote, loading, error, onRefresh, onToggleFavorite, onBrowse }: {
+  quote: SavedQuote | null;
+  loading: boolean;
+  error: QuoteError | null;
+  onRefresh: () => void;
+  onToggleFavorite: (id: string) => void;
+  onBrowse: () => void;
+}) => (
+  <footer className="quote-container">
+    <p>"{quote?.quote ?? (loading ? 'Loading your daily inspiration...' : QUOTE_FALLBACK)}"</p>
+    {quote?.attribution && <p className="quote-attribution">— {quote.attribution}</p>}
+    {error && <p className="quote-error" role="status">{error.message}</p>}
+    <div className="quote-actions">
+      {quote && <span className="quote-category">{QUOTE_THEME_LABELS[quote.category]}</span>}
+      <button onClick={onRefresh} disabled={loading} title="Another quote" aria-label="Another quote">↻</button>
+      {quote && (
+        <button onClick={() => onToggleFavorite(quote.id)} title={quote.favorite ? 'Remove from favorites' : 'Add to favorites'} aria-label={quote.favorite ? 'Remove from favorites' : 'Add to favorites'} aria-pressed={quote.favorite}>
+          {quote.favorite ? '★' : '☆'}
+        </button>
+      )}
+      <button onClick={onBrowse} title="Past quotes" aria-label="Past quotes">📜</button>
+    </div>
+  </footer>
+);
+
+const QuotesPanel = ({ quotes, onToggleFavorite, onClose }: { quotes: SavedQuote[]; onToggleFavorite: (id: string) => void; onClose: () => void }) => {
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const shown = favoritesOnly ? quotes.filter(q => q.favorite) : quotes;
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal card" role="dialog" aria-label="Past quotes" onClick={e => e.stopPropagation()}>
+        <h3>Past quotes</h3>
+        <label className="checkbox-label">
+          <input type="checkbox" checked={favoritesOnly} onChange={e => setFavoritesOnly(e.target.checked)}/>
+          Favorites only
+        </label>
+        {shown.length === 0 ? (
+          <p className="history-empty">{favoritesOnly ? 'No favorites yet. Tap ☆ under a quote to keep it here.' : 'No quotes yet.'}</p>
+        ) : (
+          <ul className="quote-list">
+            {shown.map(q => (
+              <li key={q.id}>
+                <div>
+                  <p>"{q.quote}"</p>
+                  <span className="schedule-preview">
+                    {q.attribution ? `— ${q.attribution} · ` : ''}{QUOTE_THEME_LABELS[q.category]} · {q.day}
+                  </span>
+                </div>
+                <button onClick={() => onToggleFavorite(q.id)} aria-label={q.favorite ? 'Remove from favorites' : 'Add to favorites'} aria-pressed={q.favorite}>
+                  {q.favorite ? '★' : '☆'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="schedule-preview">The last {QUOTE_HISTORY_LIMIT} quotes are kept; favorites stay until you unfavorite them.</p>
+        <button onClick={onClose} className="secondary-action">Close</button>
+      </div>
+    </div>
+  );
+};
+
+const QuarantineNotice = ({ entries, onDismiss }: { entries: QuarantineEntry[]; onDismiss: () => void }) => {
+  const keys = [...new Set(entries.map(e => e.key))].join(', ');
+  const handleDownload = () => {
+    downloadFile(`habit-tracking-bud-recovered-${dayKey(Date.now())}.json`, JSON.stringify(entries, null, 2), 'application/json');
+  };
+  return (
+    <div className="notification-prompt quarantine-notice">
+      <span>Some saved data ({keys}) couldn't be read. Whatever was usable was kept, and a copy of the original is set aside.</span>
+      <div className="timer-card-actions">
+        <button onClick={handleDownload}>Download copy</button>
+        <button onClick={onDismiss}>Dismiss</button>
+      </div>
+    </div>
+  );
+};
+
 
 interface DashboardProps {
   userName: string;
+  profiles: ProfileControls;
   reminders: Reminder[];
   setReminders: React.Dispatch<React.SetStateAction<Reminder[]>>;
-  stats: Stats;
-  setStats: React.Dispatch<React.SetStateAction<Stats>>;
-  quote: string;
+  stats: CurrentStats;
+  history: BreakEvent[];
+  quoteHistory: SavedQuote[];
+  quoteLoading: boolean;
+  quoteError: QuoteError | null;
+  onRefreshQuote: () => void;
+  onToggleFavorite: (id: string) => void;
   setTheme: React.Dispatch<React.SetStateAction<'light' | 'dark'>>;
   theme: 'light' | 'dark';
   isSessionActive: boolean;
   setIsSessionActive: React.Dispatch<React.SetStateAction<boolean>>;
   activeBreaks: ActiveBreak[];
+  backupData: BackupData;
+  sync: SyncControls;
+  onRestore: (data: BackupData, mode: ImportMode) => void;
+  settings: Settings;
+  onSettingsChange: (change: Partial<Settings>) => void;
+  dndUntil: number | null;
+  onDndChange: (until: number | null) => void;
+  isAway: boolean;
+  daySummaries: DaySummary[];
+  // Ends the session and saves a summary of the day; returns the summary
+  onEndDay: (at: number) => DaySummary;
 }
 const Dashboard = ({
   userName,
+  profiles,
   reminders,
   setReminders,
   stats,
-  setStats,
-  quote,
+  history,
+  quoteHistory,
+  quoteLoading,
+  quoteError,
+  onRefreshQuote,
+  onToggleFavorite,
   setTheme,
   theme,
   isSessionActive,
   setIsSessionActive,
   activeBreaks,
+  backupData,
+  sync,
+  onRestore,
+  settings,
+  onSettingsChange,
+  dndUntil,
+  onDndChange,
+  isAway,
+  daySummaries,
+  onEndDay,
 }: DashboardProps) => {
+  const clock = useClock();
   const [newName, setNewName] = useState('');
-  // reference setStats to avoid "declared but its value is never read" TS warning
-  // it's intentionally kept for future use (e.g., exporting stats UI hooks)
-  void setStats;
   const [newType, setNewType] = useState<'recurring' | 'once'>('recurring');
-  const [newInterval, setNewInterval] = useState(40);
-  const [newDuration, setNewDuration] = useState(2);
+  const [newInterval, setNewInterval] = useState(40 * 60);
+  const [newDuration, setNewDuration] = useState(2 * 60);
   const [newTime, setNewTime] = useState('13:00');
+  const [newDays, setNewDays] = useState<number[]>(ALL_DAYS);
+  const [newWindowStart, setNewWindowStart] = useState('');
+  const [newWindowEnd, setNewWindowEnd] = useState('');
+  const [newOnceMode, setNewOnceMode] = useState<'days' | 'date'>('days');
+  const [newDate, setNewDate] = useState(() => dayKey(clock()));
+  const [newSteps, setNewSteps] = useState<RoutineStep[]>([]);
+  const [newGoal, setNewGoal] = useState(0);
+  const [formError, setFormError] = useState('');
 
   const [currentPage, setCurrentPage] = useState(0);
   const itemsPerPage = 3;
 
   const [mobileTab, setMobileTab] = useState<'new' | 'dash'>('new');
+  const [showBackup, setShowBackup] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showDnd, setShowDnd] = useState(false);
+  const [showQuotes, setShowQuotes] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  // Day shown in the summary panel; undefined while it's closed
+  const [summaryDate, setSummaryDate] = useState<string | null | undefined>(undefined);
+  const [dashView, setDashView] = useState<'reminders' | 'history' | 'analytics'>('reminders');
 
 
   const paginatedReminders = useMemo(() => {
@@ -510,34 +1596,120 @@ const Dashboard = ({
 
   const totalPages = Math.ceil(reminders.length / itemsPerPage);
 
-  const handleAddReminder = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newName || newDuration <= 0) return;
+  const minCompletion = settings.minCompletionPercent / 100;
 
-    let newReminder: Reminder;
-    const now = Date.now();
-    
-    if (newType === 'recurring') {
-      if (newInterval <= 0) return;
-      newReminder = {
-        id: now.toString(), name: newName, duration: newDuration, active: true, createdAt: now, lastTriggered: isSessionActive ? now : 0,
-        type: 'recurring', interval: newInterval,
-      };
+  // Ending the day by hand also shows its summary
+  const handleSessionToggle = () => {
+    if (isSessionActive) {
+      setSummaryDate(onEndDay(clock()).date);
     } else {
-      if (!newTime) return;
-      newReminder = {
-        id: now.toString(), name: newName, duration: newDuration, active: true, createdAt: now, lastTriggered: 0,
-        type: 'once', triggerTime: newTime,
+      setIsSessionActive(true);
+    }
+  };
+  const ratesById = useMemo(
+    () => new Map(reminderRates(history, minCompletion).map(rate => [rate.reminderId, rate])),
+    [history, minCompletion],
+  );
+  const today = useToday(settings.dayStartHour);
+  const goalsById = useMemo(
+    () => new Map(reminders.map(r => [r.id, habitProgress(r, history, clock(), minCompletion, settings)])),
+    [reminders, history, minCompletion, settings, clock, today],
+  );
+
+  // Reminder described by the form; also drives the schedule preview
+  const buildDraft = (now: number): Reminder => {
+    // all seven days is stored as "no restriction"
+    const days = newDays.length === 7 ? undefined : newDays;
+    const base = {
+      id: now.toString(), name: newName, active: true, createdAt: now,
+      // a routine's length is the sum of its steps
+      ...(newSteps.length > 0 ? { durationSeconds: routineDuration(newSteps), steps: newSteps } : { durationSeconds: newDuration }),
+      ...(newGoal > 0 && { dailyGoal: newGoal }),
+    };
+    if (newType === 'recurring') {
+      return {
+        ...base, lastTriggered: isSessionActive ? now : 0,
+        type: 'recurring', intervalSeconds: newInterval, days,
+        windowStart: newWindowStart || undefined, windowEnd: newWindowEnd || undefined,
       };
     }
+    return {
+      ...base, lastTriggered: 0,
+      type: 'once', triggerTime: newTime,
+      ...(newOnceMode === 'date' ? { date: newDate } : { days }),
+    };
+  };
+
+  const validateDraft = (draft: Reminder) => {
+    if (draft.type === 'recurring' && (draft.intervalSeconds ?? 0) <= 0) return 'Interval must be at least 1 second.';
+    if (newDays.length === 0 && !(draft.type === 'once' && newOnceMode === 'date')) return 'Pick at least one day.';
+    if (draft.windowStart && draft.windowEnd && draft.windowEnd <= draft.windowStart) return 'Active window must end after it starts.';
+    if (draft.type === 'once' && !draft.triggerTime) return 'Pick a time.';
+    if (draft.date && (nextOccurrence(draft, clock()) ?? 0) < clock()) return 'That date and time is already in the past.';
+    if (draft.steps?.some(step => !step.name.trim() || step.seconds <= 0)) return 'Every routine step needs a name and a length.';
+    return '';
+  };
 
-    setReminders(prev => [newReminder, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+  const addReminder = (reminder: Reminder) => {
+    setReminders(prev => [reminder, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+  };
+
+  const handleAddReminder = (e: React.FormEvent) => {
+    e.preventDefault();
+    const newReminder = buildDraft(clock());
+    if (!newName || newReminder.durationSeconds <= 0) return;
+
+    const error = validateDraft(newReminder);
+    setFormError(error);
+    if (error) return;
+
+    addReminder(newReminder);
     setNewName('');
-    setNewInterval(40);
-    setNewDuration(2);
+    setNewInterval(40 * 60);
+    setNewDuration(2 * 60);
     setNewTime('13:00');
+    setNewDays(ALL_DAYS);
+    setNewWindowStart('');
+    setNewWindowEnd('');
+    setNewOnceMode('days');
+    setNewSteps([]);
+    setNewGoal(0);
   };
   
+  const handleQuickAdd = (draft: QuickAddDraft) => {
+    const now = clock();
+    addReminder({
+      ...draft, id: now.toString(), active: true, createdAt: now,
+      lastTriggered: draft.type === 'recurring' && isSessionActive ? now : 0,
+    });
+  };
+
+  // Hands a parsed reminder to the full form for adjustments
+  const handleQuickEdit = (draft: QuickAddDraft) => {
+    setNewName(draft.name);
+    setNewType(draft.type);
+    setNewDuration(draft.durationSeconds);
+    if (draft.intervalSeconds) setNewInterval(draft.intervalSeconds);
+    if (draft.triggerTime) setNewTime(draft.triggerTime);
+    setNewDays(draft.days ?? ALL_DAYS);
+    setNewWindowStart(draft.windowStart ?? '');
+    setNewWindowEnd(draft.windowEnd ?? '');
+    setNewOnceMode(draft.date ? 'date' : 'days');
+    if (draft.date) setNewDate(draft.date);
+    setNewSteps([]);
+    setFormError('');
+  };
+
+  // With a routine the duration comes from its steps
+  const durationField = (id: string) => newSteps.length > 0 ? (
+    <div className="input-group-labeled">
+      <label>Duration</label>
+      <p className="routine-total">{formatDuration(routineDuration(newSteps))}</p>
+    </div>
+  ) : (
+    <DurationInput id={id} label="Duration" seconds={newDuration} onChange={setNewDuration} />
+  );
+
   const handleDelete = (id: string) => {
     setReminders(prev => prev.filter(r => r.id !== id));
   }
@@ -548,7 +1720,7 @@ const Dashboard = ({
         const becomingActive = !r.active;
         let newLastTriggered = r.lastTriggered;
         if (becomingActive && r.type === 'recurring' && isSessionActive) {
-          newLastTriggered = Date.now();
+          newLastTriggered = clock();
         }
         return { ...r, active: becomingActive, lastTriggered: newLastTriggered };
       }
@@ -561,9 +1733,18 @@ const Dashboard = ({
       <header>
         <h2>Welcome, {userName}</h2>
         <div className="header-actions">
-           <button onClick={() => setIsSessionActive(s => !s)} className={`session-toggle ${isSessionActive ? 'active' : ''}`}>
+           <select className="profile-switcher" aria-label="Profile" value={profiles.active.id} onChange={e => profiles.onSwitch(e.target.value)}>
+             {profiles.list.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+           </select>
+           <button className="theme-toggle" onClick={() => setShowProfiles(true)} aria-label="Manage profiles">👥</button>
+           <button onClick={handleSessionToggle} className={`session-toggle ${isSessionActive ? 'active' : ''}`}>
              {isSessionActive ? 'End Day' : 'Start Day'}
            </button>
+           {isSessionActive && isAway && <span className="away-badge" title="No activity for a while; recurring countdowns are on hold">Away</span>}
+           <button className="theme-toggle" onClick={() => setSummaryDate(null)} aria-label="Day summaries">📋</button>
+           <button className={`theme-toggle ${isDndActive(dndUntil, clock()) ? 'active' : ''}`} onClick={() => setShowDnd(true)} aria-label="Do Not Disturb">🔕</button>
+           <button className="theme-toggle" onClick={() => setShowSettings(true)} aria-label="Settings">⚙️</button>
+           <button className="theme-toggle" onClick={() => setShowBackup(true)} aria-label="Backup and restore">💾</button>
            <button className="theme-toggle" onClick={() => setTheme(t => t === 'light' ? 'dark' : 'light')} aria-label="Toggle theme">
             {theme === 'light' ? '🌙' : '☀️'}
            </button>
@@ -578,6 +1759,7 @@ const Dashboard = ({
       <main className={`main-content ${!isSessionActive && 'session-inactive'}`}>
         <div className={`card ${mobileTab === 'new' ? 'active-mobile' : ''}`}>
           <h3>New Reminder</h3>
+          <QuickAdd onAdd={handleQuickAdd} onEdit={handleQuickEdit} />
           <form onSubmit={handleAddReminder} className="reminder-form">
             <div className="input-group-labeled">
               <label htmlFor="reminder-name">Activity Name</label>
@@ -588,51 +1770,80 @@ const Dashboard = ({
               <label>Type</label>
               <div className="type-toggle">
                 <button type="button" className={newType === 'recurring' ? 'active' : ''} onClick={() => setNewType('recurring')}>Recurring</button>
-                <button type="button" className={newType === 'once' ? 'active' : ''} onClick={() => setNewType('once')}>One-Time</button>
+                <button type="button" className={newType === 'once' ? 'active' : ''} onClick={() => setNewType('once')}>At a Time</button>
               </div>
             </div>
 
-            {newType === 'recurring' ? (
+            {newType === 'recurring' ? (<>
                 <div className="form-row">
-                    <div className="input-group-labeled">
-                        <label htmlFor="reminder-interval">Interval (min)</label>
-            <input id="reminder-interval" type="number" value={newInterval} onChange={e => {
-              const v = e.target.value;
-              const n = v === '' ? 0 : parseInt(v, 10);
-              setNewInterval(Number.isNaN(n) ? 0 : n);
-            }} required min="1"/>
-                    </div>
-                    <div className="input-group-labeled">
-                        <label htmlFor="reminder-duration">Duration (min)</label>
-            <input id="reminder-duration" type="number" value={newDuration} onChange={e => {
-              const v = e.target.value;
-              const n = v === '' ? 0 : parseInt(v, 10);
-              setNewDuration(Number.isNaN(n) ? 0 : n);
-            }} required min="1"/>
-                    </div>
+                    <DurationInput id="reminder-interval" label="Interval" seconds={newInterval} onChange={setNewInterval} />
+                    {durationField('reminder-duration')}
                 </div>
-            ) : (
+              <div className="input-group-labeled">
+                <label>Days</label>
+                <DayPicker days={newDays} onChange={setNewDays} />
+              </div>
+              <div className="form-row">
+                <div className="input-group-labeled">
+                  <label htmlFor="reminder-window-start">Active from (optional)</label>
+                  <input id="reminder-window-start" type="time" value={newWindowStart} onChange={e => setNewWindowStart(e.target.value)}/>
+                </div>
+                <div className="input-group-labeled">
+                  <label htmlFor="reminder-window-end">Active until (optional)</label>
+                  <input id="reminder-window-end" type="time" value={newWindowEnd} onChange={e => setNewWindowEnd(e.target.value)}/>
+                </div>
+              </div>
+            </>) : (<>
                 <div className="form-row">
                     <div className="input-group-labeled">
                         <label htmlFor="reminder-time">Time</label>
                         <input id="reminder-time" type="time" value={newTime} onChange={e => setNewTime(e.target.value)} required/>
                     </div>
-                    <div className="input-group-labeled">
-                        <label htmlFor="reminder-duration-once">Duration (min)</label>
-            <input id="reminder-duration-once" type="number" value={newDuration} onChange={e => {
-              const v = e.target.value;
-              const n = v === '' ? 0 : parseInt(v, 10);
-              setNewDuration(Number.isNaN(n) ? 0 : n);
-            }} required min="1"/>
-                    </div>
+                    {durationField('reminder-duration-once')}
                 </div>
-            )}
+              <div className="input-group-labeled">
+                <label>Repeat</label>
+                <div className="type-toggle">
+                  <button type="button" className={newOnceMode === 'days' ? 'active' : ''} onClick={() => setNewOnceMode('days')}>On Days</button>
+                  <button type="button" className={newOnceMode === 'date' ? 'active' : ''} onClick={() => setNewOnceMode('date')}>On a Date</button>
+                </div>
+              </div>
+              {newOnceMode === 'days' ? (
+                <DayPicker days={newDays} onChange={setNewDays} />
+              ) : (
+                <input id="reminder-date" type="date" aria-label="Date" value={newDate} min={dayKey(clock())} onChange={e => setNewDate(e.target.value)} required/>
+              )}
+            </>)}
+
+            <div className="input-group-labeled">
+              <label>Routine (optional)</label>
+              <RoutineEditor steps={newSteps} onChange={setNewSteps} />
+            </div>
+
+            <div className="input-group-labeled">
+              <label htmlFor="reminder-goal">Daily goal (optional)</label>
+              <input id="reminder-goal" type="number" min="0" placeholder="e.g. 8 breaks a day" value={newGoal || ''} onChange={e => {
+                const n = parseInt(e.target.value, 10);
+                setNewGoal(Number.isNaN(n) ? 0 : Math.max(0, n));
+              }}/>
+            </div>
+
+            {newName && (newSteps.length > 0 || newDuration > 0) && <p className="schedule-preview">{describeSchedule(buildDraft(0))}</p>}
+            {formError && <p className="form-error">{formError}</p>}
             
             <button type="submit">Add Reminder</button>
           </form>
         </div>
         <div className={`card ${mobileTab === 'dash' ? 'active-mobile' : ''}`}>
           <h3>Dashboard</h3>
+          <div className="type-toggle">
+            <button type="button" className={dashView === 'reminders' ? 'active' : ''} onClick={() => setDashView('reminders')}>Reminders</button>
+            <button type="button" className={dashView === 'history' ? 'active' : ''} onClick={() => setDashView('history')}>History</button>
+            <button type="button" className={dashView === 'analytics' ? 'active' : ''} onClick={() => setDashView('analytics')}>Insights</button>
+          </div>
+          {dashView === 'history' && <HistoryView events={history} />}
+          {dashView === 'analytics' && <AnalyticsView events={history} minCompletion={minCompletion} />}
+          {dashView === 'reminders' && (<>
            <div className="stats-grid">
               <div className="stat-item">
                   <div className="stat-value">{stats?.completed ?? 0}</div>
@@ -641,6 +1852,11 @@ const Dashboard = ({
               <div className="stat-item">
                   <div className="stat-value">{stats?.streak ?? 0} 🔥</div>
                   <div className="stat-label">Day Streak</div>
+                  {stats.freezes > 0 && (
+                    <div className="streak-freezes" title={`A freeze covers one missed day. You earn one every ${FREEZE_EVERY_DAYS} streak days, up to ${MAX_FREEZES}.`}>
+                      🧊 {stats.freezes} {stats.freezes === 1 ? 'freeze' : 'freezes'}
+                    </div>
+                  )}
               </div>
           </div>
           <ul className="reminder-list">
@@ -651,13 +1867,13 @@ const Dashboard = ({
                          <span className="reminder-type-icon">{r.type === 'recurring' ? '🔁' : '⏰'}</span> {r.name}
                         </div>
                         <div className="reminder-details">
-                          {r.type === 'recurring' 
-                            ? `${r.duration} min break every ${r.interval} min`
-                            : `${r.duration} min break at ${r.triggerTime}`
-                          }
+                          {describeSchedule(r)}
                         </div>
+                        {r.steps && <div className="reminder-details">{describeRoutine(r.steps)}</div>}
+                        <ReminderOutcome rate={ratesById.get(r.id)} />
                     </div>
-                    <CountdownTimer reminder={r} isSessionActive={isSessionActive} activeBreaks={activeBreaks} />
+                    {goalsById.get(r.id) && <HabitGoal progress={goalsById.get(r.id)!} />}
+                    <CountdownTimer reminder={r} isSessionActive={isSessionActive && !isAway} activeBreaks={activeBreaks} />
                     <div className="reminder-actions">
                         <button onClick={() => toggleActive(r.id)} aria-label={r.active ? 'Pause' : 'Play'}>{r.active ? '⏸️' : '▶️'}</button>
                         <button onClick={() => handleDelete(r.id)} className="delete-btn" aria-label="Delete">🗑️</button>
@@ -674,43 +1890,126 @@ const Dashboard = ({
                 <button onClick={() => setCurrentPage(p => Math.min(totalPages - 1, p + 1))} disabled={currentPage === totalPages - 1}>→</button>
              </div>
           )}
+          </>)}
         </div>
       </main>
-      <footer className="quote-container">
-        <p>"{quote}"</p>
-      </footer>
+      <QuoteFooter
+        quote={quoteHistory[0] ?? null}
+        loading={quoteLoading}
+        error={quoteError}
+        onRefresh={onRefreshQuote}
+        onToggleFavorite={onToggleFavorite}
+        onBrowse={() => setShowQuotes(true)}
+      />
+      {showBackup && <BackupPanel data={backupData} sync={sync} onRestore={onRestore} onClose={() => setShowBackup(false)} />}
+      {showSettings && <SettingsPanel settings={settings} onChange={onSettingsChange} onClose={() => setShowSettings(false)} />}
+      {summaryDate !== undefined && <DaySummaryPanel summaries={daySummaries} initialDate={summaryDate} onClose={() => setSummaryDate(undefined)} />}
+      {showProfiles && <ProfilesPanel profiles={profiles} onClose={() => setShowProfiles(false)} />}
+      {showQuotes && <QuotesPanel quotes={quoteHistory} onToggleFavorite={onToggleFavorite} onClose={() => setShowQuotes(false)} />}
+      {showDnd && <DndPanel dndUntil={dndUntil} heldReminders={settings.heldReminders} onChange={onDndChange} onClose={() => setShowDnd(false)} />}
     </div>
   );
 };
 
 
 // --- APP ---
-const App = () => {
-  const [userName, setUserName] = useLocalStorage<string | null>('userName', null);
-  const [reminders, setReminders] = useLocalStorage<Reminder[]>('reminders', []);
-  const [stats, setStats] = useLocalStorage<Stats>('stats', { completed: 0, streak: 0, lastCompletionDate: null });
-
-  const [theme, setTheme] = useLocalStorage<'light' | 'dark'>('theme', 'dark');
-  const [isSessionActive, setIsSessionActive] = useLocalStorage('isSessionActive', false);
-  const [quote, setQuote] = useState("Loading your daily inspiration...");
+// One profile's app; ProfileScope remounts it when the active profile changes
+const App = ({ profiles }: { profiles: ProfileControls }) => {
+  const storageAdapter = useStorage();
+  const clock = useClock();
+  const userName = profiles.active.name;
+  const [reminders, setReminders] = useLocalStorage<Reminder[]>('reminders', [], arrayOf(isReminder));
+  // Counters recorded before the history log existed, folded into computed stats.
+  // Only a backup restore ever writes them.
+  const [statsBaseline, setStatsBaseline] = useLocalStorage<Stats>('stats', EMPTY_STATS, guard(isStats));
+  const [history, setHistory] = useLocalStorage<BreakEvent[]>(HISTORY_KEY, [], arrayOf(isBreakEvent));
+
+  const [theme, setTheme] = useLocalStorage<'light' | 'dark'>('theme', 'dark', guard(isTheme));
+  const [savedSettings, setSavedSettings] = useLocalStorage<Partial<Settings>>(SETTINGS_KEY, DEFAULT_SETTINGS, guard(isSettings));
+  const settings = useMemo(() => withDefaults(savedSettings), [savedSettings]);
+  const updateSettings = useCallback((change: Partial<Settings>) => {
+    setSavedSettings(prev => ({ ...withDefaults(prev), ...change }));
+  }, [setSavedSettings]);
+  // Today's stats and the streak change when the day rolls over, not only with history
+  const today = useToday(settings.dayStartHour);
+  const stats = useMemo(
+    () => computeStats(history, statsBaseline, clock(), settings.minCompletionPercent / 100, settings),
+    [history, statsBaseline, settings, clock, today],
+  );
+  const [isSessionActive, setIsSessionActive] = useLocalStorage('isSessionActive', false, guard(isBoolean));
+  // Read after the hooks above so anything they just quarantined is included
+  const [quarantined, setQuarantined] = useState<QuarantineEntry[]>(() => readQuarantine());
+  const [quoteHistory, setQuoteHistory] = useLocalStorage<SavedQuote[]>(QUOTE_HISTORY_KEY, [], arrayOf(isSavedQuote));
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<QuoteError | null>(null);
   // API key now secure on server - quotes always available
   const hasGeminiKey = true;
 
-  const [pendingBreaks, setPendingBreaks] = useState<Reminder[]>([]);
-  const [activeBreaks, setActiveBreaks] = useState<ActiveBreak[]>([]);
+  // Persisted so breaks survive a reload; restoreBreaks() settles them once this tab leads
+  const [pendingBreaks, setPendingBreaks] = useLocalStorage<Reminder[]>(PENDING_BREAKS_KEY, [], arrayOf(isReminder));
+  const [activeBreaks, setActiveBreaks] = useLocalStorage<ActiveBreak[]>(ACTIVE_BREAKS_KEY, [], arrayOf(isActiveBreak));
   const [focusedBreakId, setFocusedBreakId] = useState<string | null>(null);
-  // (Global clock removed – components compute remaining directly via Date.now())
+  const [dndUntil, setDndUntil] = useLocalStorage<number | null>(DND_KEY, null, guard(isNullableNumber));
+  const [heldBreaks, setHeldBreaks] = useLocalStorage<HeldBreak[]>(HELD_BREAKS_KEY, [], arrayOf(isHeldBreak));
+  // Last work schedule boundary applied to the session, so each one applies once
+  const [workSessionMark, setWorkSessionMark] = useLocalStorage<number | null>(WORK_SESSION_MARK_KEY, null, guard(isNullableNumber));
+  const [away, setAway] = useState(false);
+  const [daySummaries, setDaySummaries] = useLocalStorage<DaySummary[]>(DAY_SUMMARIES_KEY, [], arrayOf(isDaySummary));
+  const [notificationState, setNotificationState] = useState(notificationPermission);
+  const [notificationPromptDismissed, setNotificationPromptDismissed] = useLocalStorage('notificationPromptDismissed', false, guard(isBoolean));
 
   // Refs to hold the latest state for the interval, preventing stale closures.
   const remindersRef = useRef(reminders);
   const pendingBreaksRef = useRef(pendingBreaks);
   const activeBreaksRef = useRef(activeBreaks);
   const isSessionActiveRef = useRef(isSessionActive);
+  const settingsRef = useRef(settings);
+  const dndUntilRef = useRef(dndUntil);
+  // Only the leader tab runs the scheduler and settles expired breaks
+  const isLeaderRef = useRef(false);
 
   useEffect(() => { remindersRef.current = reminders; }, [reminders]);
   useEffect(() => { pendingBreaksRef.current = pendingBreaks; }, [pendingBreaks]);
   useEffect(() => { activeBreaksRef.current = activeBreaks; }, [activeBreaks]);
   useEffect(() => { isSessionActiveRef.current = isSessionActive; }, [isSessionActive]);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+  useEffect(() => { dndUntilRef.current = dndUntil; }, [dndUntil]);
+  const lastActivityRef = useRef(clock());
+  const awayRef = useRef(false);
+  const lastTickRef = useRef(clock());
+
+  useEffect(() => watchActivity(() => { lastActivityRef.current = clock(); }), [clock]);
+
+  // Ending the day, by hand or by the work schedule, saves a summary of the day `at` is in
+  const endDay = useCallback((at: number) => {
+    const summary = summarizeDay(history, at, stats, settings.minCompletionPercent / 100, settings.dayStartHour);
+    setDaySummaries(prev => saveSummary(prev, summary));
+    setIsSessionActive(false);
+    return summary;
+  }, [history, stats, settings, setDaySummaries, setIsSessionActive]);
+
+  // Start or end the session when the work schedule crosses a boundary
+  useEffect(() => {
+    const applySchedule = () => {
+      const boundary = lastWorkBoundary(settings.workSchedule, clock());
+      if (!boundary || (workSessionMark !== null && boundary.at <= workSessionMark)) return;
+      setWorkSessionMark(boundary.at);
+      if (boundary.active) setIsSessionActive(true);
+      else if (isSessionActive) endDay(boundary.at);
+    };
+    applySchedule();
+    const intervalId = setInterval(applySchedule, 1000);
+    return () => clearInterval(intervalId);
+  }, [clock, settings.workSchedule, workSessionMark, isSessionActive, endDay, setWorkSessionMark, setIsSessionActive]);
+
+  // Checked every second so Do Not Disturb and quiet hours end on time in every tab
+  const [holding, setHolding] = useState(() => holdReason(settings.quietHours, dndUntil, clock()));
+  useEffect(() => {
+    const update = () => setHolding(holdReason(settings.quietHours, dndUntil, clock()));
+    update();
+    const intervalId = setInterval(update, 1000);
+    return () => clearInterval(intervalId);
+  }, [clock, settings.quietHours, dndUntil]);
   
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
@@ -721,160 +2020,365 @@ const App = () => {
     if (isSessionActive) {
       setReminders(prev => prev.map(r => {
         if (r.type === 'recurring' && r.lastTriggered === 0) {
-          return { ...r, lastTriggered: Date.now() };
+          return { ...r, lastTriggered: clock() };
         }
         return r;
       }));
     }
-  }, [isSessionActive, setReminders]);
+  }, [clock, isSessionActive, setReminders]);
+
+  // A newer build waiting to take over; offered until dismissed
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  useEffect(() => startServiceWorker(setWaitingWorker), []);
+
+  useEffect(() => unlockAudioOnGesture(), []);
+
+  // The first time this tab leads, it settles breaks left from the profile's last visit.
+  // Only the leader writes them, so tabs opened together don't log them twice.
+  const breaksRestoredRef = useRef(false);
+  useEffect(() => startLeaderElection(isLeader => {
+    isLeaderRef.current = isLeader;
+    if (!isLeader || breaksRestoredRef.current) return;
+    breaksRestoredRef.current = true;
+    restoreBreaks(storageAdapter, clock());
+  }), [storageAdapter, clock]);
+
+  // Cross-device sync. The leader tab syncs on a timer and when the network comes back;
+  // "Sync now" works from any tab. Merged data reaches every tab through storage events.
+  const [syncState] = useLocalStorage<SyncState | null>(SYNC_STATE_KEY, null, syncStateSchema);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<SyncError | null>(null);
+  const syncInFlightRef = useRef(false);
+  const runSync = useCallback(async () => {
+    if (syncInFlightRef.current) return;
+    syncInFlightRef.current = true;
+    setSyncing(true);
+    const result = await syncNow(storageAdapter, postSync);
+    syncInFlightRef.current = false;
+    setSyncing(false);
+    setSyncError(result.ok ? null : result.error);
+  }, [storageAdapter]);
+
+  const syncSpace = syncState?.space ?? null;
+  useEffect(() => {
+    if (!syncSpace) return;
+    const sync = () => {
+      if (isLeaderRef.current) void runSync();
+    };
+    sync();
+    const intervalId = setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', sync);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('online', sync);
+    };
+  }, [syncSpace, runSync]);
+
+  const syncControls: SyncControls = {
+    state: syncState,
+    syncing,
+    error: syncError,
+    onStart: code => startSync(storageAdapter, code),
+    onStop: () => {
+      stopSync(storageAdapter);
+      setSyncError(null);
+    },
+    onSyncNow: () => void runSync(),
+  };
+
+  const handleEnableNotifications = async () => {
+    setNotificationState(await requestNotificationPermission());
+    setNotificationPromptDismissed(true);
+  };
+
+  // One quote per day, theme and language unless the user asks for another
+  const quoteLanguage = settings.quoteLanguage ?? navigator.language;
+  const quoteHistoryRef = useRef(quoteHistory);
+  useEffect(() => { quoteHistoryRef.current = quoteHistory; }, [quoteHistory]);
+  const quoteInFlightRef = useRef(false);
+  const loadQuote = useCallback(async (force: boolean) => {
+    const history = quoteHistoryRef.current;
+    const now = clock();
+    const today = dayKey(now);
+    const latest = history[0];
+    if (quoteInFlightRef.current) return;
+    if (!force && latest && latest.day === today && latest.category === settings.quoteTheme && latest.language === quoteLanguage) return;
+
+    quoteInFlightRef.current = true;
+    setQuoteLoading(true);
+    const names = remindersRef.current.filter(r => r.active).map(r => r.name);
+    const result = await fetchQuote(quoteRequestFor(settings.quoteTheme, quoteLanguage, names, history, today));
+    quoteInFlightRef.current = false;
+    setQuoteLoading(false);
+    setQuoteError(!result.ok ? result.error : result.offline ? QUOTE_OFFLINE_NOTICE : null);
+    // Offline, the same quote comes back until the network does
+    if (result.ok && result.quote.quote !== latest?.quote) {
+      setQuoteHistory(prev => addQuote(prev, { ...result.quote, id: String(now), fetchedAt: now, day: today, language: quoteLanguage, favorite: false }));
+    }
+  }, [clock, settings.quoteTheme, quoteLanguage, setQuoteHistory]);
 
   useEffect(() => {
     const quoteTimer = setTimeout(() => {
-        fetchQuote().then(setQuote);
+        void loadQuote(false);
     }, 1000);
     return () => clearTimeout(quoteTimer);
-  }, []);
+  }, [loadQuote]);
 
+  const recordEvent = useCallback((event: BreakEvent) => {
+    setHistory(prev => appendEvents(prev, [event]));
+  }, [setHistory]);
+
+  // Used for timer expiry, auto-abandon and the End buttons; the outcome is derived from timestamps.
   const finishBreak = useCallback((finishedId: string) => {
+    const finished = activeBreaksRef.current.find(b => b.id === finishedId);
+    // Card and focus overlay may both report expiry; only the first call counts.
+    if (!finished) return;
+    const now = clock();
+    const remaining = getRemaining(finished, now);
+    // Expiry is settled by the leader tab; other tabs pick up the result through storage
+    if (remaining <= 0 && !isLeaderRef.current) return;
+    activeBreaksRef.current = activeBreaksRef.current.filter(b => b.id !== finishedId);
+
     setActiveBreaks(prev => prev.filter(b => b.id !== finishedId));
     setFocusedBreakId(prevId => (prevId === finishedId ? null : prevId));
     
     // Update reminder's lastTriggered time
     setReminders(prev => prev.map(r => {
         if (r.id === finishedId) {
-            return { ...r, lastTriggered: Date.now() };
+            return { ...r, lastTriggered: now };
         }
         return r;
     }));
-    
-    // Update user stats
-    setStats(prev => {
-        const today = new Date().toISOString().split('T')[0];
-        let newStreak = prev.streak;
-
-        if (prev.lastCompletionDate !== today) {
-            const yesterday = new Date();
-            yesterday.setDate(yesterday.getDate() - 1);
-            if (prev.lastCompletionDate === yesterday.toISOString().split('T')[0]) {
-                newStreak += 1;
-            } else {
-                newStreak = 1;
-            }
-        }
-        
-        return {
-            completed: prev.completed + 1,
-            streak: newStreak,
-            lastCompletionDate: today,
-        };
-    });
-  }, [setReminders, setStats]);
+
+    // A break left paused past the limit counts as abandoned from that moment
+    const abandonedAt = abandonsAt(finished, settingsRef.current.autoAbandonMinutes);
+    const event = abandonedAt !== null && abandonedAt <= now
+      ? breakEndEvent('abandoned', finished, abandonedAt)
+      : breakEndEvent(remaining > 0 ? 'ended_early' : 'finished', finished, now);
+    if (event.type === 'finished') {
+      playCue('end', settingsRef.current, dndUntilRef.current, now);
+      if (pageIsInBackground()) notifyBreakComplete(finished);
+    }
+    recordEvent(event);
+  }, [clock, setActiveBreaks, setReminders, recordEvent]);
+
+  const togglePauseBreak = useCallback((id: string) => {
+    const target = activeBreaksRef.current.find(b => b.id === id);
+    if (!target) return;
+    const now = clock();
+    const updated = isPaused(target) ? resumeBreak(target, now) : pauseBreak(target, now);
+    activeBreaksRef.current = activeBreaksRef.current.map(b => (b.id === id ? updated : b));
+    setActiveBreaks(prev => prev.map(b => (b.id === id ? updated : b)));
+    recordEvent(createBreakEvent(isPaused(updated) ? 'paused' : 'resumed', updated, { at: now, startedAt: updated.startedAt }));
+  }, [clock, setActiveBreaks, recordEvent]);
 
   // Removed mutable loop; each card & focus overlay manages its own countdown derived from timestamps.
 
+  const finishBreakRef = useRef(finishBreak);
+  useEffect(() => { finishBreakRef.current = finishBreak; }, [finishBreak]);
+
+  // Current routine step of each running break, to chime when it moves on
+  const stepIndexRef = useRef(new Map<string, number>());
+
   // Main checker for due reminders
   useEffect(() => {
     const checkReminders = () => {
-        const now = new Date();
-        const currentReminders = remindersRef.current;
+        const now = clock();
+        // Followers keep ticking too, so taking over as leader doesn't look like sleep
+        const lastTickAt = lastTickRef.current;
+        lastTickRef.current = now;
+        if (!isLeaderRef.current) return;
+
+        // Away or asleep: hold recurring countdowns, and restart them on return
+        const idleMinutes = settingsRef.current.idleMinutes;
+        const idleMs = idleMinutes !== null ? idleMinutes * 60 * 1000 : null;
+        const slept = idleMs !== null && sleptBetween(lastTickAt, now, idleMs);
+        const isAwayNow = idleMs !== null && isAway(lastActivityRef.current, now, idleMs);
+        if (slept || (awayRef.current && !isAwayNow)) {
+          setReminders(prev => restartRecurring(prev, now));
+        }
+        if (isAwayNow !== awayRef.current) {
+          awayRef.current = isAwayNow;
+          setAway(isAwayNow);
+        }
+        if (slept) return;
+
         const currentPendingBreaks = pendingBreaksRef.current;
         const currentActiveBreaks = activeBreaksRef.current;
-        const currentIsSessionActive = isSessionActiveRef.current;
-
-        const currentlyManagedIds = new Set([...currentPendingBreaks.map(p => p.id), ...currentActiveBreaks.map(a => a.id)]);
-        
-        const dueReminders = currentReminders.filter(r => {
-            if (!r.active || currentlyManagedIds.has(r.id)) return false;
-
-            if (r.type === 'recurring' && currentIsSessionActive) {
-                if (r.lastTriggered === 0) return false;
-                return (now.getTime() - r.lastTriggered) >= (r.interval || 0) * 60 * 1000;
-            }
-
-            if (r.type === 'once' && r.triggerTime) {
-                const [hours, minutes] = r.triggerTime.split(':').map(Number);
-                const targetTime = new Date();
-                targetTime.setHours(hours, minutes, 0, 0);
-
-                const lastTriggerDate = new Date(r.lastTriggered);
-                const sameDayTrigger = r.lastTriggered !== 0 && lastTriggerDate.toDateString() === targetTime.toDateString();
 
-                return now >= targetTime && !sameDayTrigger;
+        // Settle expired breaks here too, in case the tab whose card saw them expire wasn't leader,
+        // along with breaks paused for longer than the auto-abandon limit
+        const autoAbandonMinutes = settingsRef.current.autoAbandonMinutes;
+        currentActiveBreaks
+          .filter(b => getRemaining(b, now) <= 0 || (abandonsAt(b, autoAbandonMinutes) ?? Infinity) <= now)
+          .forEach(b => finishBreakRef.current(b.id));
+
+        const stepIndexes = new Map<string, number>();
+        for (const b of activeBreaksRef.current) {
+          const progress = b.steps && routineProgress(b.steps, getElapsed(b, now));
+          if (!progress) continue;
+          const key = `${b.id}-${b.startedAt}`;
+          const previous = stepIndexRef.current.get(key);
+          if (previous !== undefined && previous !== progress.index) playCue('step', settingsRef.current, dndUntilRef.current, now);
+          stepIndexes.set(key, progress.index);
+        }
+        stepIndexRef.current = stepIndexes;
+
+        const due = dueReminders({
+          reminders: remindersRef.current,
+          isSessionActive: isSessionActiveRef.current && !isAwayNow,
+          busyIds: new Set([...currentPendingBreaks.map(p => p.id), ...currentActiveBreaks.map(a => a.id)]),
+        }, now);
+
+        if (due.length > 0 && holdReason(settingsRef.current.quietHours, dndUntilRef.current, now)) {
+            // Don't interrupt: drop them or keep them for the catch-up prompt, and restart their countdowns
+            if (settingsRef.current.heldReminders === 'drop') {
+              setHistory(prev => appendEvents(prev, due.map(r => createBreakEvent('missed', r, { at: now, plannedSeconds: r.durationSeconds }))));
+            } else {
+              setHeldBreaks(prev => holdBreaks(prev, due, now));
             }
-
-            return false;
-        });
-
-        if (dueReminders.length > 0) {
+            setReminders(prev => prev.map(r => due.some(d => d.id === r.id) ? markTriggered(r, now) : r));
+        } else if (due.length > 0) {
+            playCue('due', settingsRef.current, dndUntilRef.current, now);
+            if (pageIsInBackground()) due.forEach(notifyBreakDue);
+            setHistory(prev => appendEvents(prev, due.map(r => createBreakEvent('triggered', r, {
+              at: now,
+              plannedSeconds: r.durationSeconds,
+            }))));
             setPendingBreaks(prev => {
-                const newPending = dueReminders.filter(due => !prev.some(p => p.id === due.id));
+                const newPending = due.filter(d => !prev.some(p => p.id === d.id));
                 return newPending.length > 0 ? [...prev, ...newPending] : prev;
             });
-            // Update lastTriggered for due reminders to start the next countdown
-            setReminders(prev => prev.map(r => {
-                if (dueReminders.some(d => d.id === r.id)) {
-                    return { ...r, lastTriggered: Date.now() };
-                }
-                return r;
-            }));
+            // Start the next countdown and use up any snooze
+            setReminders(prev => prev.map(r => due.some(d => d.id === r.id) ? markTriggered(r, now) : r));
         }
     };
     const intervalId = setInterval(checkReminders, 1000);
-    return () => clearInterval(intervalId);
-  }, []);
+    // Background tabs throttle the interval; catch up as soon as the page is visible again
+    document.addEventListener('visibilitychange', checkReminders);
+    return () => {
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', checkReminders);
+    };
+  }, [clock, setHistory, setReminders, setHeldBreaks]);
   
   const handleStartBreak = (id: string) => {
     const reminderToStart = reminders.find(p => p.id === id);
-    if (!reminderToStart) return;
-    
-    setActiveBreaks(prevActive => [...prevActive, {
+    if (!reminderToStart || activeBreaks.some(b => b.id === id)) return;
+    clearBreakDueNotification(id);
+
+    const newBreak: ActiveBreak = {
       id: reminderToStart.id,
       name: reminderToStart.name,
-      startedAt: Date.now(),
-      durationSeconds: reminderToStart.duration * 60,
-    }]);
+      startedAt: clock(),
+      durationSeconds: reminderToStart.durationSeconds,
+      ...(reminderToStart.steps && { steps: reminderToStart.steps }),
+    };
+    setActiveBreaks(prevActive => [...prevActive, newBreak]);
+    playCue('start', settings, dndUntil, newBreak.startedAt);
+    recordEvent(createBreakEvent('started', newBreak, {
+      at: newBreak.startedAt,
+      startedAt: newBreak.startedAt,
+      plannedSeconds: newBreak.durationSeconds,
+    }));
 
     if (reminderToStart.type === 'once') {
-        setReminders(prev => prev.map(r => r.id === id ? { ...r, lastTriggered: Date.now() } : r));
+        setReminders(prev => prev.map(r => r.id === id ? { ...r, lastTriggered: newBreak.startedAt } : r));
     }
     
     setPendingBreaks(prevPending => prevPending.filter(p => p.id !== id));
   };
   
   const handleSkipBreak = (id: string) => {
-    setReminders(prev => prev.map(r => r.id === id ? { ...r, lastTriggered: Date.now() } : r));
+    const now = clock();
+    const skipped = reminders.find(r => r.id === id);
+    clearBreakDueNotification(id);
+    if (skipped) recordEvent(createBreakEvent('skipped', skipped, { at: now, plannedSeconds: skipped.durationSeconds }));
+    setReminders(prev => prev.map(r => r.id === id ? { ...r, lastTriggered: now } : r));
     setPendingBreaks(prev => prev.filter(p => p.id !== id));
   };
   
   const handleSnoozeBreak = (id: string, minutesToSnooze: number) => {
-      setReminders(prev => prev.map(r => {
-        if (r.id === id) {
-            if (r.type === 'recurring') {
-                const newLastTriggered = Date.now() + (minutesToSnooze * 60 * 1000) - ((r.interval || 0) * 60 * 1000);
-                return { ...r, lastTriggered: newLastTriggered };
-            } else { // one-time
-                const newTriggerTime = new Date(Date.now() + minutesToSnooze * 60 * 1000);
-                const hours = newTriggerTime.getHours().toString().padStart(2, '0');
-                const minutes = newTriggerTime.getMinutes().toString().padStart(2, '0');
-                return { ...r, triggerTime: `${hours}:${minutes}`, lastTriggered: 0 };
-            }
-        }
-        return r;
-      }));
+      const now = clock();
+      const snoozed = reminders.find(r => r.id === id);
+      clearBreakDueNotification(id);
+      if (snoozed) recordEvent(createBreakEvent('snoozed', snoozed, { at: now, snoozeMinutes: minutesToSnooze }));
+      setReminders(prev => prev.map(r => r.id === id ? snoozeReminder(r, minutesToSnooze, now) : r));
       setPendingBreaks(prev => prev.filter(p => p.id !== id));
   };
 
-  const handleNameSubmit = (name: string) => {
-    setUserName(name);
+  const handleSnoozeAll = (minutes: number) => {
+    const now = clock();
+    const ids = new Set(pendingBreaks.map(p => p.id));
+    ids.forEach(clearBreakDueNotification);
+    setHistory(prev => appendEvents(prev, reminders.filter(r => ids.has(r.id)).map(r => createBreakEvent('snoozed', r, { at: now, snoozeMinutes: minutes }))));
+    setReminders(prev => prev.map(r => ids.has(r.id) ? snoozeReminder(r, minutes, now) : r));
+    setPendingBreaks(prev => prev.filter(p => !ids.has(p.id)));
+  };
+
+  // Held reminders that still exist and aren't already waiting or running become pending breaks
+  const handleCatchUp = () => {
+    const now = clock();
+    const busy = new Set([...pendingBreaks, ...activeBreaks].map(b => b.id));
+    const caughtUp = heldBreaks
+      .map(h => reminders.find(r => r.id === h.reminderId))
+      .filter((r): r is Reminder => r !== undefined && !busy.has(r.id));
+    setHistory(prev => appendEvents(prev, caughtUp.map(r => createBreakEvent('triggered', r, { at: now, plannedSeconds: r.durationSeconds }))));
+    setPendingBreaks(prev => [...prev, ...caughtUp.filter(r => !prev.some(p => p.id === r.id))]);
+    setHeldBreaks([]);
+  };
+
+  const handleDismissHeld = () => {
+    const now = clock();
+    setHistory(prev => appendEvents(prev, heldBreaks.map(h => createBreakEvent('missed', { id: h.reminderId, name: h.reminderName }, {
+      at: now,
+      plannedSeconds: reminders.find(r => r.id === h.reminderId)?.durationSeconds,
+    }))));
+    setHeldBreaks([]);
+  };
+
+  // Notification buttons arrive from the service worker; route them to the latest handlers
+  const notificationHandlersRef = useRef({ start: handleStartBreak, skip: handleSkipBreak, snooze: handleSnoozeBreak });
+  notificationHandlersRef.current = { start: handleStartBreak, skip: handleSkipBreak, snooze: handleSnoozeBreak };
+
+  useEffect(() => {
+    const handleAction = ({ action, reminderId }: NotificationActionMessage) => {
+      if (!reminderId) return;
+      const handlers = notificationHandlersRef.current;
+      if (action === 'start') handlers.start(reminderId);
+      else if (action === 'skip') handlers.skip(reminderId);
+      else if (action === 'snooze') handlers.snooze(reminderId, NOTIFICATION_SNOOZE_MINUTES);
+    };
+    const fromUrl = consumeNotificationActionFromUrl();
+    if (fromUrl) handleAction(fromUrl);
+    return onNotificationAction(handleAction);
+  }, []);
+
+  const backupData: BackupData = useMemo(() => ({
+    reminders, stats: statsBaseline, history, theme, settings, userName, isSessionActive,
+  }), [reminders, statsBaseline, history, theme, settings, userName, isSessionActive]);
+
+  const handleRestore = (data: BackupData, mode: ImportMode) => {
+    if (mode === 'replace') {
+      // Queued and running breaks belong to the data being discarded
+      activeBreaksRef.current = [];
+      setPendingBreaks([]);
+      setActiveBreaks([]);
+      setHeldBreaks([]);
+      setFocusedBreakId(null);
+      setTheme(data.theme);
+      setSavedSettings(data.settings);
+      setIsSessionActive(data.isSessionActive);
+      if (data.userName) profiles.onRename(profiles.active.id, data.userName);
+    }
+    setReminders(data.reminders);
+    setHistory(data.history);
+    setStatsBaseline(data.stats);
   };
 
   // Direct lookup each render; small list so cheap and avoids stale memo issues
   const focusedBreak = focusedBreakId ? activeBreaks.find((b: ActiveBreak) => b.id === focusedBreakId) : null;
 
-  if (!userName) {
-    return <WelcomeScreen onNameSubmit={handleNameSubmit} />;
-  }
-  
   return (
     <div className="app-container">
       {!hasGeminiKey && (
@@ -882,33 +2386,67 @@ const App = () => {
           Gemini API key not found in environment. Add <strong>VITE_GEMINI_API_KEY</strong> to your <code>.env.local</code> and restart the dev server to enable fresh quotes.
         </div>
       )}
+      {waitingWorker && (
+        <UpdateNotice onReload={() => applyUpdate(waitingWorker)} onDismiss={() => setWaitingWorker(null)} />
+      )}
+      {quarantined.length > 0 && (
+        <QuarantineNotice entries={quarantined} onDismiss={() => { clearQuarantine(); setQuarantined([]); }} />
+      )}
+      {holding && (
+        <DndNotice reason={holding} dndUntil={dndUntil} quietHours={settings.quietHours} onTurnOff={() => setDndUntil(null)} />
+      )}
+      {notificationState === 'default' && !notificationPromptDismissed && (
+        <NotificationPrompt onEnable={handleEnableNotifications} onDismiss={() => setNotificationPromptDismissed(true)} />
+      )}
       <Dashboard
         userName={userName}
+        profiles={profiles}
         reminders={reminders}
         setReminders={setReminders}
         stats={stats}
-        setStats={setStats}
-        quote={quote}
+        history={history}
+        quoteHistory={quoteHistory}
+        quoteLoading={quoteLoading}
+        quoteError={quoteError}
+        onRefreshQuote={() => void loadQuote(true)}
+        onToggleFavorite={id => setQuoteHistory(prev => toggleFavorite(prev, id))}
         setTheme={setTheme}
         theme={theme}
         isSessionActive={isSessionActive}
         setIsSessionActive={setIsSessionActive}
         activeBreaks={activeBreaks}
+        backupData={backupData}
+        sync={syncControls}
+        onRestore={handleRestore}
+        settings={settings}
+        onSettingsChange={updateSettings}
+        dndUntil={dndUntil}
+        onDndChange={setDndUntil}
+        isAway={away}
+        daySummaries={daySummaries}
+        onEndDay={endDay}
       />
       <ActiveTimersContainer 
         pendingBreaks={pendingBreaks}
         activeBreaks={activeBreaks}
+        heldBreaks={holding ? [] : heldBreaks}
         onStart={handleStartBreak}
         onSkip={handleSkipBreak}
         onSnooze={handleSnoozeBreak}
+        onSnoozeAll={handleSnoozeAll}
+        onCatchUp={handleCatchUp}
+        onDismissHeld={handleDismissHeld}
         onFinish={finishBreak}
+        onTogglePause={togglePauseBreak}
         onFocus={setFocusedBreakId}
       />
       {focusedBreak && (
         <FocusScreen
           key={focusedBreak.id}
           activeBreak={focusedBreak}
+          ambient={{ sound: settings.ambientSound, volume: settings.ambientVolume, quietHours: settings.quietHours, dndUntil }}
           onEnd={finishBreak}
+          onTogglePause={togglePauseBreak}
           onClose={() => setFocusedBreakId(null)}
         />
       )}
@@ -916,5 +2454,61 @@ const App = () => {
   );
 };
 
+type ProfileControls = {
+  list: Profile[];
+  active: Profile;
+  onSwitch: (id: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+// One profile's storage. Root remounts it, and the App inside, for each profile.
+const ProfileScope = ({ profileId, children }: { profileId: string; children: React.ReactNode }) => {
+  const [storageAdapter] = useState(() => createStorageAdapter(window.localStorage, profileId));
+  return <StorageContext.Provider value={storageAdapter}>{children}</StorageContext.Provider>;
+};
+
+// Picks the profile to open. Switching in one tab switches every open tab.
+const Root = () => {
+  const [profiles, setProfiles] = useLocalStorage<Profile[]>(PROFILES_KEY, [], arrayOf(isProfile));
+  const [activeId, setActiveId] = useLocalStorage<string | null>(ACTIVE_PROFILE_KEY, null, guard(isNullableString));
+  const active = profiles.find(p => p.id === activeId) ?? profiles[0] ?? null;
+
+  const addProfile = (name: string) => {
+    const profile = createProfile(name, profiles);
+    setProfiles(prev => [...prev, profile]);
+    setActiveId(profile.id);
+  };
+
+  if (!active) {
+    return <WelcomeScreen onNameSubmit={addProfile} />;
+  }
+
+  const controls: ProfileControls = {
+    list: profiles,
+    active,
+    onSwitch: setActiveId,
+    onAdd: addProfile,
+    onRename: (id, name) => setProfiles(prev => renameProfile(prev, id, name)),
+    onDelete: id => {
+      const rest = profiles.filter(p => p.id !== id);
+      // Leave the profile before its data goes; with none left the welcome screen shows
+      if (id === active.id) setActiveId(rest[0]?.id ?? null);
+      setProfiles(rest);
+      deleteProfileData(window.localStorage, id);
+    },
+  };
+
+  return (
+    <ProfileScope key={active.id} profileId={active.id}>
+      <App profiles={controls} />
+    </ProfileScope>
+  );
+};
+
+// Upgrade stored data before any component reads it
+runMigrations();
+
 const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
\ No newline at end of file
+root.render(<Root />);
\ No newline at end of file
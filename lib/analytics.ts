@@ -0,0 +1,161 @@
+import type { BreakEvent, BreakEventType } from './types';
+import { DEFAULT_MIN_COMPLETION, dayKey, isCompletion } from './history';
+
+// --- ANALYTICS ---
+// Everything here is derived from the local history log; nothing leaves the browser.
+// `minCompletion` is the share of a break that has to be done for it to count (see isCompletion).
+
+export type TrendUnit = 'day' | 'week' | 'month';
+export type TrendBucket = { key: string; label: string; count: number };
+export type ReminderRate = {
+  reminderId: string;
+  name: string;
+  completed: number;
+  incomplete: number; // ended early short of the threshold, or abandoned
+  skipped: number;
+  snoozed: number;
+  missed: number;
+  total: number;
+  rate: number; // 0..1, completed / total
+};
+export type HeatmapDay = { key: string; count: number; inFuture: boolean };
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+// Weeks start on Monday
+const startOfWeek = (timestamp: number) => {
+  const d = startOfDay(timestamp);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+};
+
+const monthKey = (timestamp: number) => dayKey(timestamp).slice(0, 7);
+
+const bucketKey = (timestamp: number, unit: TrendUnit) => {
+  if (unit === 'day') return dayKey(timestamp);
+  if (unit === 'week') return dayKey(startOfWeek(timestamp).getTime());
+  return monthKey(timestamp);
+};
+
+const bucketLabel = (start: Date, unit: TrendUnit) => {
+  if (unit === 'month') return MONTH_NAMES[start.getMonth()];
+  return `${start.getDate()} ${MONTH_NAMES[start.getMonth()]}`;
+};
+
+export const completionsByDay = (events: BreakEvent[], minCompletion = DEFAULT_MIN_COMPLETION) => {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (!isCompletion(event, minCompletion)) continue;
+    const key = dayKey(event.at);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// The last `count` buckets of `unit`, oldest first, including empty ones
+export const completionTrend = (
+  events: BreakEvent[], unit: TrendUnit, count: number, now = Date.now(), minCompletion = DEFAULT_MIN_COMPLETION,
+): TrendBucket[] => {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (!isCompletion(event, minCompletion)) continue;
+    const key = bucketKey(event.at, unit);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const buckets: TrendBucket[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const start = unit === 'week' ? startOfWeek(now) : startOfDay(now);
+    if (unit === 'day') start.setDate(start.getDate() - i);
+    if (unit === 'week') start.setDate(start.getDate() - i * 7);
+    if (unit === 'month') start.setMonth(start.getMonth() - i, 1);
+    const key = bucketKey(start.getTime(), unit);
+    buckets.push({ key, label: bucketLabel(start, unit), count: counts.get(key) ?? 0 });
+  }
+  return buckets;
+};
+
+// Events that settle a due reminder one way or another
+const OUTCOME_TYPES: BreakEventType[] = ['finished', 'ended_early', 'abandoned', 'skipped', 'snoozed', 'missed'];
+
+export const reminderRates = (events: BreakEvent[], minCompletion = DEFAULT_MIN_COMPLETION): ReminderRate[] => {
+  const byReminder = new Map<string, ReminderRate>();
+  for (const event of events) {
+    if (!OUTCOME_TYPES.includes(event.type)) continue;
+    let entry = byReminder.get(event.reminderId);
+    if (!entry) {
+      entry = {
+        reminderId: event.reminderId, name: event.reminderName,
+        completed: 0, incomplete: 0, skipped: 0, snoozed: 0, missed: 0, total: 0, rate: 0,
+      };
+      byReminder.set(event.reminderId, entry);
+    }
+    // keep the most recent name in case the reminder was renamed
+    entry.name = event.reminderName;
+    entry.total += 1;
+    if (isCompletion(event, minCompletion)) entry.completed += 1;
+    else if (event.type === 'skipped') entry.skipped += 1;
+    else if (event.type === 'snoozed') entry.snoozed += 1;
+    else if (event.type === 'missed') entry.missed += 1;
+    else entry.incomplete += 1;
+  }
+
+  return [...byReminder.values()]
+    .map(entry => ({ ...entry, rate: entry.completed / entry.total }))
+    .sort((a, b) => b.total - a.total);
+};
+
+export const totalFocusMinutes = (events: BreakEvent[], minCompletion = DEFAULT_MIN_COMPLETION) => {
+  let seconds = 0;
+  for (const event of events) {
+    if (isCompletion(event, minCompletion)) seconds += event.actualSeconds ?? 0;
+  }
+  return Math.round(seconds / 60);
+};
+
+// Skip counts per local hour (index 0..23)
+export const skipsByHour = (events: BreakEvent[]) => {
+  const hours = new Array<number>(24).fill(0);
+  for (const event of events) {
+    if (event.type === 'skipped') hours[new Date(event.at).getHours()] += 1;
+  }
+  return hours;
+};
+
+export const topSkipHours = (events: BreakEvent[], limit = 3) =>
+  skipsByHour(events)
+    .map((count, hour) => ({ hour, count }))
+    .filter(h => h.count > 0)
+    .sort((a, b) => b.count - a.count || a.hour - b.hour)
+    .slice(0, limit);
+
+// Calendar heatmap: `weeks` columns of Monday..Sunday, ending with the current week
+export const completionHeatmap = (
+  events: BreakEvent[], weeks: number, now = Date.now(), minCompletion = DEFAULT_MIN_COMPLETION,
+): HeatmapDay[][] => {
+  const counts = completionsByDay(events, minCompletion);
+  const today = startOfDay(now).getTime();
+  const firstMonday = startOfWeek(now);
+  firstMonday.setDate(firstMonday.getDate() - (weeks - 1) * 7);
+
+  const columns: HeatmapDay[][] = [];
+  for (let w = 0; w < weeks; w++) {
+    const column: HeatmapDay[] = [];
+    for (let d = 0; d < 7; d++) {
+      const day = new Date(firstMonday);
+      day.setDate(firstMonday.getDate() + w * 7 + d);
+      const key = dayKey(day.getTime());
+      column.push({ key, count: counts.get(key) ?? 0, inFuture: day.getTime() > today });
+    }
+    columns.push(column);
+  }
+  return columns;
+};
+
+export const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
@@ -0,0 +1,168 @@
+import type { AmbientSound, Settings, SoundCue } from './types';
+import { holdReason } from './quiet';
+
+// --- AUDIO CUES ---
+// Every sound is synthesized with the Web Audio API, so there is nothing to download.
+// Browsers only start audio after a user gesture: the context is created lazily and
+// resumed on the first click or key press.
+
+export const SOUND_CUES: SoundCue[] = ['due', 'start', 'step', 'end'];
+export const AMBIENT_SOUNDS: AmbientSound[] = ['brown', 'pink', 'rain'];
+
+export const CUE_LABELS: Record<SoundCue, string> = {
+  due: 'Break due',
+  start: 'Break start',
+  step: 'Routine step',
+  end: 'Break end',
+};
+export const AMBIENT_LABELS: Record<AmbientSound, string> = {
+  brown: 'Brown noise',
+  pink: 'Pink noise',
+  rain: 'Rain',
+};
+
+type Note = { freq: number; at: number; length: number }; // seconds from the start of the cue
+
+const CUE_NOTES: Record<SoundCue, Note[]> = {
+  // E5 → A5, a rising call
+  due: [{ freq: 659.25, at: 0, length: 0.6 }, { freq: 880, at: 0.18, length: 0.9 }],
+  // C5 → G5, soft and short
+  start: [{ freq: 523.25, at: 0, length: 0.5 }, { freq: 783.99, at: 0.12, length: 0.7 }],
+  // B5, a single tick
+  step: [{ freq: 987.77, at: 0, length: 0.35 }],
+  // C6 → G5 → E5, falling and ringing out
+  end: [{ freq: 1046.5, at: 0, length: 0.8 }, { freq: 783.99, at: 0.22, length: 0.8 }, { freq: 659.25, at: 0.44, length: 1.4 }],
+};
+
+const CUE_LEVEL = 0.25;
+const AMBIENT_LEVEL = 0.4;
+const AMBIENT_FADE_SECONDS = 1;
+const NOISE_SECONDS = 6;
+
+let context: AudioContext | null = null;
+
+const getContext = () => {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  context ??= new AudioContext();
+  if (context.state === 'suspended') void context.resume();
+  return context;
+};
+
+// Returns a cleanup function that removes the listeners again
+export const unlockAudioOnGesture = () => {
+  const unlock = () => {
+    getContext();
+    cleanup();
+  };
+  const cleanup = () => {
+    window.removeEventListener('pointerdown', unlock);
+    window.removeEventListener('keydown', unlock);
+  };
+  window.addEventListener('pointerdown', unlock);
+  window.addEventListener('keydown', unlock);
+  return cleanup;
+};
+
+// `volume` is 0–1
+export const previewCue = (cue: SoundCue, volume: number) => {
+  const ctx = getContext();
+  if (!ctx || volume <= 0) return;
+  const start = ctx.currentTime + 0.02;
+  for (const note of CUE_NOTES[cue]) {
+    const t = start + note.at;
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(0.0001, t);
+    envelope.gain.exponentialRampToValueAtTime(CUE_LEVEL * volume, t + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, t + note.length);
+    envelope.connect(ctx.destination);
+
+    // A quieter octave above makes the tone ring like a bell
+    for (const [multiple, level] of [[1, 1], [2, 0.3]]) {
+      const osc = ctx.createOscillator();
+      const partial = ctx.createGain();
+      osc.frequency.value = note.freq * multiple;
+      partial.gain.value = level;
+      osc.connect(partial).connect(envelope);
+      osc.start(t);
+      osc.stop(t + note.length + 0.05);
+    }
+  }
+};
+
+// The volume (0–1) a cue plays at: its configured one, or 0 when it is muted, during
+// quiet hours or while Do Not Disturb is on
+export const cueVolume = (cue: SoundCue, settings: Pick<Settings, 'sounds' | 'quietHours'>, dndUntil: number | null, now: number) => {
+  const sound = settings.sounds[cue];
+  return sound.muted || holdReason(settings.quietHours, dndUntil, now) ? 0 : sound.volume / 100;
+};
+
+export const playCue = (cue: SoundCue, settings: Pick<Settings, 'sounds' | 'quietHours'>, dndUntil: number | null, now = Date.now()) =>
+  previewCue(cue, cueVolume(cue, settings, dndUntil, now));
+
+const fillNoise = (kind: AmbientSound, samples: Float32Array, sampleRate: number) => {
+  let brown = 0;
+  let b0 = 0, b1 = 0, b2 = 0;
+  let hiss = 0;
+  let drop = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (kind === 'brown') {
+      brown = (brown + 0.02 * white) / 1.02;
+      samples[i] = brown * 3.5;
+    } else if (kind === 'pink') {
+      // Paul Kellet's economy pink filter
+      b0 = 0.99765 * b0 + white * 0.099046;
+      b1 = 0.963 * b1 + white * 0.2965164;
+      b2 = 0.57 * b2 + white * 1.0526913;
+      samples[i] = (b0 + b1 + b2 + white * 0.1848) * 0.05;
+    } else {
+      // Soft hiss with scattered drops, about 30 a second
+      hiss = hiss * 0.6 + white * 0.4;
+      if (Math.random() < 30 / sampleRate) drop = 0.5 + Math.random() * 0.5;
+      drop *= 0.997;
+      samples[i] = hiss * 0.25 + white * drop * 0.5;
+    }
+  }
+};
+
+const buffers = new Map<AmbientSound, AudioBuffer>();
+
+const noiseBuffer = (ctx: AudioContext, kind: AmbientSound) => {
+  const cached = buffers.get(kind);
+  if (cached) return cached;
+  const length = ctx.sampleRate * NOISE_SECONDS;
+  const fade = Math.floor(ctx.sampleRate * 0.1);
+  const samples = new Float32Array(length + fade);
+  fillNoise(kind, samples, ctx.sampleRate);
+  // Blend the extra tail into the start so the loop point doesn't click
+  for (let i = 0; i < fade; i++) {
+    const mix = i / fade;
+    samples[i] = samples[i] * mix + samples[length + i] * (1 - mix);
+  }
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  buffer.copyToChannel(samples.subarray(0, length), 0);
+  buffers.set(kind, buffer);
+  return buffer;
+};
+
+// Loops an ambient sound until the returned function is called; it fades in and out
+export const startAmbient = (kind: AmbientSound, volume: number) => {
+  const ctx = getContext();
+  if (!ctx || volume <= 0) return () => {};
+  const source = ctx.createBufferSource();
+  source.buffer = noiseBuffer(ctx, kind);
+  source.loop = true;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, ctx.currentTime);
+  gain.gain.linearRampToValueAtTime(AMBIENT_LEVEL * volume, ctx.currentTime + AMBIENT_FADE_SECONDS);
+  source.connect(gain).connect(ctx.destination);
+  source.start();
+
+  return () => {
+    const now = ctx.currentTime;
+    gain.gain.cancelScheduledValues(now);
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    gain.gain.linearRampToValueAtTime(0, now + AMBIENT_FADE_SECONDS);
+    source.stop(now + AMBIENT_FADE_SECONDS);
+  };
+};
@@ -0,0 +1,289 @@
+import type { BreakEvent, Reminder, Settings, Stats } from './types';
+import { findInvalid, isBreakEvent, isReminder, isSettings, isStats, isTheme } from './validation';
+import { DEFAULT_SETTINGS, withDefaults } from './settings';
+import { WEEKDAY_LABELS, formatDuration } from './scheduling';
+import { reminderToSeconds } from './migrations';
+import { legacyStatsToLocal } from './streaks';
+
+// --- BACKUP / RESTORE ---
+
+export const BACKUP_FORMAT = 'habit-tracking-bud';
+// 2: reminder durations and intervals in seconds
+// 3: stats.lastCompletionDate is a local calendar day
+export const BACKUP_VERSION = 3;
+
+export type BackupData = {
+  reminders: Reminder[];
+  stats: Stats;
+  history: BreakEvent[];
+  theme: 'light' | 'dark';
+  settings: Settings;
+  userName: string | null;
+  isSessionActive: boolean;
+};
+export type BackupBundle = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  data: BackupData;
+};
+export type ImportMode = 'merge' | 'replace';
+export type ImportPreview = {
+  exportedAt: number;
+  reminders: { added: number; duplicates: number; renamed: number };
+  events: { added: number; duplicates: number };
+};
+export type ParseResult = { ok: true; bundle: BackupBundle } | { ok: false; error: string };
+
+export const createBackup = (data: BackupData, now = Date.now()): BackupBundle => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: now,
+  data,
+});
+
+export const parseBackup = (text: string): ParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'This file is not valid JSON.' };
+  }
+
+  const bundle = raw as Partial<BackupBundle> | null;
+  if (!bundle || bundle.format !== BACKUP_FORMAT) return { ok: false, error: 'This is not a Habit-Tracking-Bud backup.' };
+  if (typeof bundle.version !== 'number' || bundle.version > BACKUP_VERSION) {
+    return { ok: false, error: `Unsupported backup version ${bundle.version}. Update the app and try again.` };
+  }
+
+  const data = bundle.data as Partial<BackupData> | undefined;
+  if (!data || !Array.isArray(data.reminders) || !Array.isArray(data.history)) {
+    return { ok: false, error: 'The backup is missing its reminders or history.' };
+  }
+  if (bundle.version < 2) data.reminders = data.reminders.map(reminderToSeconds) as Reminder[];
+  const badReminder = findInvalid(data.reminders, isReminder);
+  if (badReminder !== -1) return { ok: false, error: `Reminder #${badReminder + 1} in the backup is malformed.` };
+  const badEvent = findInvalid(data.history, isBreakEvent);
+  if (badEvent !== -1) return { ok: false, error: `History entry #${badEvent + 1} in the backup is malformed.` };
+  if (!isStats(data.stats)) return { ok: false, error: 'The backup has malformed stats.' };
+  if (bundle.version < 3) data.stats = legacyStatsToLocal(data.stats);
+
+  return {
+    ok: true,
+    bundle: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION, // older bundles are upgraded above
+      exportedAt: typeof bundle.exportedAt === 'number' ? bundle.exportedAt : 0,
+      data: {
+        reminders: data.reminders,
+        stats: data.stats,
+        history: data.history,
+        theme: isTheme(data.theme) ? data.theme : 'dark',
+        settings: isSettings(data.settings) ? withDefaults(data.settings) : DEFAULT_SETTINGS,
+        userName: typeof data.userName === 'string' ? data.userName : null,
+        isSessionActive: data.isSessionActive === true,
+      },
+    },
+  };
+};
+
+// Same reminder if everything but the runtime fields matches
+const sameReminder = (a: Reminder, b: Reminder) => {
+  const strip = ({ lastTriggered: _l, active: _a, snoozedUntil: _s, updatedAt: _u, ...rest }: Reminder) => JSON.stringify(rest, Object.keys(rest).sort());
+  return strip(a) === strip(b);
+};
+
+const uniqueId = (id: string, taken: Set<string>) => {
+  let n = 1;
+  while (taken.has(`${id}-${n}`)) n += 1;
+  return `${id}-${n}`;
+};
+
+// Merge keeps local settings and adds imported reminders/history. An imported reminder
+// whose id is already used by a different local reminder gets a fresh id, and its
+// history events are re-pointed to it.
+export const mergeBackup = (current: BackupData, incoming: BackupData): { data: BackupData; preview: Omit<ImportPreview, 'exportedAt'> } => {
+  const takenIds = new Set(current.reminders.map(r => r.id));
+  const remap = new Map<string, string>();
+  const reminders = [...current.reminders];
+  const reminderCounts = { added: 0, duplicates: 0, renamed: 0 };
+
+  for (const reminder of incoming.reminders) {
+    const local = current.reminders.find(r => r.id === reminder.id);
+    if (local && sameReminder(local, reminder)) {
+      reminderCounts.duplicates += 1;
+      continue;
+    }
+    if (local) {
+      const id = uniqueId(reminder.id, takenIds);
+      remap.set(reminder.id, id);
+      takenIds.add(id);
+      reminders.push({ ...reminder, id });
+      reminderCounts.renamed += 1;
+    } else {
+      takenIds.add(reminder.id);
+      reminders.push(reminder);
+      reminderCounts.added += 1;
+    }
+  }
+
+  const eventIds = new Set(current.history.map(e => e.id));
+  const history = [...current.history];
+  const eventCounts = { added: 0, duplicates: 0 };
+  for (const event of incoming.history) {
+    const reminderId = remap.get(event.reminderId) ?? event.reminderId;
+    // Events of a re-numbered reminder are new even if their ids match
+    const id = remap.has(event.reminderId) ? `${event.id}-${reminderId}` : event.id;
+    if (eventIds.has(id)) {
+      eventCounts.duplicates += 1;
+      continue;
+    }
+    eventIds.add(id);
+    history.push({ ...event, id, reminderId });
+    eventCounts.added += 1;
+  }
+  history.sort((a, b) => a.at - b.at);
+
+  // Pre-history counters can't be de-duplicated; keep whichever is further along
+  const stats = incoming.stats.completed > current.stats.completed ? incoming.stats : current.stats;
+
+  return {
+    data: {
+      ...current,
+      reminders: reminders.sort((a, b) => b.createdAt - a.createdAt),
+      history,
+      stats,
+    },
+    preview: { reminders: reminderCounts, events: eventCounts },
+  };
+};
+
+export const previewImport = (current: BackupData, bundle: BackupBundle, mode: ImportMode): ImportPreview => {
+  if (mode === 'replace') {
+    return {
+      exportedAt: bundle.exportedAt,
+      reminders: { added: bundle.data.reminders.length, duplicates: 0, renamed: 0 },
+      events: { added: bundle.data.history.length, duplicates: 0 },
+    };
+  }
+  return { exportedAt: bundle.exportedAt, ...mergeBackup(current, bundle.data).preview };
+};
+
+export const applyImport = (current: BackupData, bundle: BackupBundle, mode: ImportMode): BackupData =>
+  mode === 'replace' ? bundle.data : mergeBackup(current, bundle.data).data;
+
+// --- iCalendar ---
+
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Floating local time, e.g. 20261019T090000
+const icsLocal = (day: Date, hhmm = '00:00') => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return `${day.getFullYear()}${pad(day.getMonth() + 1)}${pad(day.getDate())}T${pad(h)}${pad(m)}00`;
+};
+
+const icsDate = (day: Date) => `${day.getFullYear()}${pad(day.getMonth() + 1)}${pad(day.getDate())}`;
+
+const icsUtc = (timestamp: number) => new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+const weeklyRule = (days?: number[]) =>
+  days && days.length > 0 && days.length < 7
+    ? `RRULE:FREQ=WEEKLY;BYDAY=${days.map(d => ICS_DAYS[d]).join(',')}`
+    : 'RRULE:FREQ=DAILY';
+
+// The first day on or after `from` the reminder runs on, so DTSTART is itself an occurrence
+const firstActiveDay = (from: Date, days?: number[]) => {
+  const day = new Date(from);
+  for (let i = 0; i < 7 && days?.length && !days.includes(day.getDay()); i++) day.setDate(day.getDate() + 1);
+  return day;
+};
+
+// Content lines are at most 75 octets; longer ones continue on lines starting with a
+// space (RFC 5545 §3.1). Splits between characters, never inside one.
+const ICS_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines spend one octet on the leading space
+    const limit = parts.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+const addMinutes = (hhmm: string, minutes: number) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  const total = Math.min(h * 60 + m + minutes, 23 * 60 + 59);
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+};
+
+const reminderEvent = (reminder: Reminder, now: number) => {
+  const lines = ['BEGIN:VEVENT', `UID:${reminder.id}@habit-tracking-bud`, `DTSTAMP:${icsUtc(now)}`];
+  const created = new Date(reminder.createdAt);
+  const firstDay = firstActiveDay(created, reminder.days);
+
+  if (reminder.type === 'recurring') {
+    // One event spanning the active window rather than one per break
+    const days = reminder.days?.length ? ` (${reminder.days.map(d => WEEKDAY_LABELS[d]).join(', ')})` : '';
+    const every = formatDuration(reminder.intervalSeconds ?? 0);
+    lines.push(`SUMMARY:${icsText(`${reminder.name}: every ${every}`)}`);
+    lines.push(`DESCRIPTION:${icsText(`${formatDuration(reminder.durationSeconds)} break every ${every}${days}`)}`);
+    if (reminder.windowStart || reminder.windowEnd) {
+      lines.push(`DTSTART:${icsLocal(firstDay, reminder.windowStart || '00:00')}`);
+      lines.push(`DTEND:${icsLocal(firstDay, reminder.windowEnd || '23:59')}`);
+    } else {
+      const next = new Date(firstDay);
+      next.setDate(next.getDate() + 1);
+      lines.push(`DTSTART;VALUE=DATE:${icsDate(firstDay)}`);
+      lines.push(`DTEND;VALUE=DATE:${icsDate(next)}`);
+    }
+    lines.push(weeklyRule(reminder.days));
+  } else {
+    const time = reminder.triggerTime || '00:00';
+    const day = reminder.date ? new Date(`${reminder.date}T00:00:00`) : firstDay;
+    lines.push(`SUMMARY:${icsText(reminder.name)}`);
+    lines.push(`DESCRIPTION:${icsText(`${formatDuration(reminder.durationSeconds)} break`)}`);
+    lines.push(`DTSTART:${icsLocal(day, time)}`);
+    lines.push(`DTEND:${icsLocal(day, addMinutes(time, Math.max(1, Math.ceil(reminder.durationSeconds / 60))))}`);
+    if (!reminder.date) lines.push(weeklyRule(reminder.days));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const toICalendar = (reminders: Reminder[], now = Date.now()) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Habit-Tracking-Bud//Reminders//EN',
+    'CALSCALE:GREGORIAN',
+    ...reminders.filter(r => r.active).flatMap(r => reminderEvent(r, now)),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,46 @@
+import type { ActiveBreak } from './types';
+import { breakEndEventId, createBreakEvent } from './history';
+
+// --- ACTIVE BREAK TIMING ---
+// Remaining time is always derived from timestamps: when the break started, how long
+// it has been paused in total and, while paused, when the current pause began.
+
+type BreakTiming = Pick<ActiveBreak, 'startedAt' | 'durationSeconds' | 'pausedAt' | 'pausedMs'>;
+
+// Whole seconds of break time that have run, excluding pauses
+export const getElapsed = (activeBreak: BreakTiming, now = Date.now()) => {
+  const until = activeBreak.pausedAt ?? now;
+  return Math.floor((until - activeBreak.startedAt - (activeBreak.pausedMs ?? 0)) / 1000);
+};
+
+export const getRemaining = (activeBreak: BreakTiming, now = Date.now()) =>
+  activeBreak.durationSeconds - getElapsed(activeBreak, now);
+
+export const isPaused = (activeBreak: BreakTiming) => activeBreak.pausedAt !== undefined;
+
+// When the break runs out, or null while it is paused
+export const breakEndsAt = (activeBreak: BreakTiming) =>
+  isPaused(activeBreak) ? null : activeBreak.startedAt + (activeBreak.pausedMs ?? 0) + activeBreak.durationSeconds * 1000;
+
+export const pauseBreak = (activeBreak: ActiveBreak, now: number): ActiveBreak =>
+  isPaused(activeBreak) ? activeBreak : { ...activeBreak, pausedAt: now };
+
+export const resumeBreak = (activeBreak: ActiveBreak, now: number): ActiveBreak => {
+  if (activeBreak.pausedAt === undefined) return activeBreak;
+  const { pausedAt, ...rest } = activeBreak;
+  return { ...rest, pausedMs: (activeBreak.pausedMs ?? 0) + Math.max(0, now - pausedAt) };
+};
+
+// When a paused break gets abandoned, or null if it isn't paused or auto-abandon is off
+export const abandonsAt = (activeBreak: BreakTiming, autoAbandonMinutes: number | null) =>
+  activeBreak.pausedAt === undefined || !autoAbandonMinutes ? null : activeBreak.pausedAt + autoAbandonMinutes * 60 * 1000;
+
+// The event that closes a break. Its id is fixed per break, so tabs settling the same break agree.
+export const breakEndEvent = (type: 'finished' | 'ended_early' | 'abandoned', activeBreak: ActiveBreak, at: number) =>
+  createBreakEvent(type, activeBreak, {
+    id: breakEndEventId(activeBreak),
+    at,
+    startedAt: activeBreak.startedAt,
+    plannedSeconds: activeBreak.durationSeconds,
+    actualSeconds: Math.min(activeBreak.durationSeconds, Math.max(0, getElapsed(activeBreak, at))),
+  });
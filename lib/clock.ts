@@ -0,0 +1,21 @@
+// --- CLOCK ---
+// Scheduling code takes the current time from a Clock instead of calling Date.now()
+// directly, so it can run against simulated time (DST changes, midnight, long sleeps).
+
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+export type ManualClock = Clock & {
+  set: (timestamp: number) => void;
+  advance: (ms: number) => void;
+};
+
+// A clock that only moves when told to
+export const createManualClock = (start: number): ManualClock => {
+  let current = start;
+  const clock = (() => current) as ManualClock;
+  clock.set = timestamp => { current = timestamp; };
+  clock.advance = ms => { current += ms; };
+  return clock;
+};
@@ -0,0 +1,65 @@
+import type { BreakEvent, Reminder } from './types';
+import { DEFAULT_MIN_COMPLETION, isCompletion } from './history';
+import { isActiveDay } from './scheduling';
+import { DEFAULT_STREAK_RULES, isWeekendDay, keyToDate, shiftDay, streakDayKey, walkStreak } from './streaks';
+import type { DayOutcome, StreakRules } from './streaks';
+
+// --- DAILY GOALS ---
+// A reminder with a `dailyGoal` is a habit: it has a target number of completed breaks
+// per day and its own streak of days the target was met, kept by the same streak
+// engine as the overall one. Days the reminder isn't scheduled on are rest days.
+
+export const GOAL_HISTORY_DAYS = 7;
+
+export type GoalDay = { key: string; count: number; status: 'met' | 'missed' | 'frozen' | 'rest' | 'today' };
+export type HabitProgress = {
+  goal: number;
+  today: number;
+  metToday: boolean;
+  streak: number;
+  freezes: number;
+  days: GoalDay[]; // the last GOAL_HISTORY_DAYS days, oldest first, ending today
+};
+
+const GOAL_DAY_STATUS: Record<DayOutcome, GoalDay['status']> = {
+  done: 'met',
+  missed: 'missed',
+  frozen: 'frozen',
+  rest: 'rest',
+  pending: 'today',
+};
+
+export const habitProgress = (
+  reminder: Reminder, events: BreakEvent[], now = Date.now(),
+  minCompletion = DEFAULT_MIN_COMPLETION, rules: StreakRules = DEFAULT_STREAK_RULES,
+): HabitProgress | null => {
+  const goal = reminder.dailyGoal;
+  if (!goal) return null;
+
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.reminderId !== reminder.id || !isCompletion(event, minCompletion)) continue;
+    const key = streakDayKey(event.at, rules.dayStartHour);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const createdKey = streakDayKey(reminder.createdAt, rules.dayStartHour);
+  const todayKey = streakDayKey(now, rules.dayStartHour);
+  const countOn = (key: string) => counts.get(key) ?? 0;
+  const { streak, freezes, outcomes } = walkStreak({
+    from: createdKey,
+    today: todayKey,
+    isDone: key => countOn(key) >= goal,
+    isRestDay: key => !isActiveDay(reminder, keyToDate(key)) || (rules.skipWeekends && isWeekendDay(key)),
+  });
+
+  const days: GoalDay[] = [];
+  for (let i = GOAL_HISTORY_DAYS - 1; i >= 0; i--) {
+    const key = shiftDay(todayKey, -i);
+    const outcome = outcomes.get(key);
+    days.push({ key, count: countOn(key), status: outcome ? GOAL_DAY_STATUS[outcome] : 'rest' });
+  }
+
+  const today = countOn(todayKey);
+  return { goal, today, metToday: today >= goal, streak, freezes, days };
+};
@@ -0,0 +1,84 @@
+import type { BreakEvent, BreakEventType, Stats } from './types';
+
+// --- BREAK HISTORY ---
+// The history log is append-only: every reminder/break transition is recorded as
+// a BreakEvent and all counters (sessions, streak) are derived from it.
+
+export const HISTORY_KEY = 'history';
+
+export const EMPTY_STATS: Stats = { completed: 0, streak: 0, lastCompletionDate: null };
+
+export const EVENT_LABELS: Record<BreakEventType, string> = {
+  triggered: 'Reminder due',
+  started: 'Break started',
+  paused: 'Paused',
+  resumed: 'Resumed',
+  finished: 'Completed',
+  ended_early: 'Ended early',
+  abandoned: 'Abandoned',
+  skipped: 'Skipped',
+  snoozed: 'Snoozed',
+  missed: 'Missed',
+};
+
+// Share of the planned time a break ended early must reach to still count as completed
+export const DEFAULT_MIN_COMPLETION = 0.8;
+
+// Whether an event is a completed session: a break that ran its full time, or one
+// ended early after at least `minCompletion` of it. Abandoned breaks never count.
+export const isCompletion = (event: BreakEvent, minCompletion = DEFAULT_MIN_COMPLETION) => {
+  if (event.type === 'finished') return true;
+  if (event.type !== 'ended_early' || !event.plannedSeconds) return false;
+  return (event.actualSeconds ?? 0) >= event.plannedSeconds * minCompletion;
+};
+
+let eventSeq = 0;
+// Random per page load, so events logged in the same millisecond on two devices (or
+// tabs) keep different ids once synced
+const eventOrigin = Math.random().toString(36).slice(2, 8);
+
+export const createBreakEvent = (
+  type: BreakEventType,
+  reminder: { id: string; name: string },
+  details: Omit<BreakEvent, 'id' | 'type' | 'reminderId' | 'reminderName' | 'at'> & { at?: number; id?: string } = {},
+): BreakEvent => {
+  const at = details.at ?? Date.now();
+  eventSeq = (eventSeq + 1) % 1000;
+  return {
+    ...details,
+    id: details.id ?? `${at}-${eventOrigin}-${eventSeq}`,
+    type,
+    reminderId: reminder.id,
+    reminderName: reminder.name,
+    at,
+  };
+};
+
+// Stable id for the end of one specific break, so tabs settling the same break agree
+export const breakEndEventId = (activeBreak: { id: string; startedAt: number }) => `end-${activeBreak.id}-${activeBreak.startedAt}`;
+
+// Appends events whose ids aren't in the log yet
+export const appendEvents = (history: BreakEvent[], events: BreakEvent[]) => {
+  const known = new Set(history.map(e => e.id));
+  const fresh = events.filter(e => !known.has(e.id));
+  return fresh.length > 0 ? [...history, ...fresh] : history;
+};
+
+// Local calendar day (YYYY-MM-DD) for a timestamp
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const month = (d.getMonth() + 1).toString().padStart(2, '0');
+  const day = d.getDate().toString().padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+export const groupEventsByDay = (events: BreakEvent[]) => {
+  const byDay = new Map<string, BreakEvent[]>();
+  for (const event of events) {
+    const key = dayKey(event.at);
+    const list = byDay.get(key);
+    if (list) list.push(event);
+    else byDay.set(key, [event]);
+  }
+  return byDay;
+};
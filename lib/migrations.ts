@@ -0,0 +1,101 @@
+import type { MigrationStore } from './persistence';
+import type { Stats } from './types';
+import { legacyStatsToLocal } from './streaks';
+import { ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID, PROFILES_KEY, PROFILE_KEYS, profileKey } from './profiles';
+
+// --- MIGRATIONS ---
+// Ordered by version; each one upgrades stored data from the previous version.
+// Version 1 is the unversioned data written before migrations existed.
+// Append new migrations at the end, never edit shipped ones.
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (store: MigrationStore) => void;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reminders up to version 2 stored `duration` and `interval` in whole minutes.
+// Also used for backups exported by those versions.
+export const reminderToSeconds = (reminder: unknown) => {
+  if (!isRecord(reminder)) return reminder;
+  const { duration, interval, ...rest } = reminder;
+  const toSeconds = (minutes: unknown) => (typeof minutes === 'number' ? Math.round(minutes * 60) : minutes);
+  return {
+    ...rest,
+    durationSeconds: toSeconds(duration),
+    ...(interval !== undefined && { intervalSeconds: toSeconds(interval) }),
+  };
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Fill defaults for reminder fields older builds could leave out',
+    up: store => {
+      const reminders = store.get('reminders');
+      if (!Array.isArray(reminders)) return;
+      store.set('reminders', reminders.map(r => {
+        if (!isRecord(r)) return r;
+        const createdAt = typeof r.createdAt === 'number' ? r.createdAt : Number(r.id) || Date.now();
+        return {
+          active: true,
+          lastTriggered: 0,
+          type: typeof r.interval === 'number' ? 'recurring' : 'once',
+          ...r,
+          id: String(r.id ?? createdAt),
+          createdAt,
+          // an empty weekday list means every day; store it as absent
+          days: Array.isArray(r.days) && r.days.length > 0 ? r.days : undefined,
+        };
+      }));
+    },
+  },
+  {
+    version: 3,
+    description: 'Store break durations and intervals in seconds instead of minutes',
+    up: store => {
+      for (const key of ['reminders', 'pendingBreaks']) {
+        const reminders = store.get(key);
+        if (Array.isArray(reminders)) store.set(key, reminders.map(reminderToSeconds));
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Move the pre-history streak date from a UTC date to a local calendar day',
+    up: store => {
+      const stats = store.get('stats');
+      if (!isRecord(stats) || typeof stats.lastCompletionDate !== 'string') return;
+      store.set('stats', legacyStatsToLocal(stats as Stats));
+    },
+  },
+  {
+    version: 5,
+    description: 'Drop the one-quote-per-day cache; shown quotes are kept in quoteHistory',
+    up: store => {
+      store.remove('dailyQuote');
+      store.remove('dailyQuoteDate');
+    },
+  },
+  {
+    version: 6,
+    description: 'Move single-user data into a default profile named after userName',
+    up: store => {
+      const userName = store.get('userName');
+      const keys = PROFILE_KEYS.filter(key => store.get(key) !== undefined);
+      // A fresh install gets its first profile from the welcome screen
+      if (keys.length === 0 && typeof userName !== 'string') return;
+      for (const key of keys) {
+        store.set(profileKey(DEFAULT_PROFILE_ID, key), store.get(key));
+        store.remove(key);
+      }
+      const name = typeof userName === 'string' && userName.trim() ? userName.trim() : 'Me';
+      store.set(PROFILES_KEY, [{ id: DEFAULT_PROFILE_ID, name, createdAt: Date.now() }]);
+      store.set(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID);
+      store.remove('userName');
+    },
+  },
+];
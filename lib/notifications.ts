@@ -0,0 +1,106 @@
+// --- SYSTEM NOTIFICATIONS ---
+// Notifications go through the service worker registration so they can carry
+// Start / Snooze / Skip buttons; clicks come back as messages (see public/sw.js).
+
+export type NotificationAction = 'start' | 'snooze' | 'skip' | 'focus';
+export type NotificationActionMessage = { type: 'notification-action'; action: NotificationAction; reminderId?: string };
+
+// Snooze length used by the notification's Snooze button
+export const NOTIFICATION_SNOOZE_MINUTES = 5;
+
+// `actions` is only valid for service-worker notifications and missing from the DOM typings
+type ActionNotificationOptions = NotificationOptions & {
+  actions?: { action: NotificationAction; title: string }[];
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const notificationPermission = (): NotificationPermission | 'unsupported' =>
+  notificationsSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async () => {
+  if (!notificationsSupported()) return 'unsupported';
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Notification permission request failed', error);
+    return Notification.permission;
+  }
+};
+
+// Only interrupt with a system notification when the page isn't in front of the user
+export const pageIsInBackground = () => document.visibilityState === 'hidden' || !document.hasFocus();
+
+const show = async (title: string, options: ActionNotificationOptions) => {
+  if (notificationPermission() !== 'granted') return;
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+    // No service worker: plain notification without action buttons
+    const { actions, ...plain } = options;
+    const notification = new Notification(title, plain);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    console.error('Failed to show notification', error);
+  }
+};
+
+export const notifyBreakDue = (reminder: { id: string; name: string }) =>
+  show(`Time for ${reminder.name}`, {
+    body: 'Your break is due.',
+    tag: `due-${reminder.id}`,
+    requireInteraction: true,
+    data: { reminderId: reminder.id },
+    actions: [
+      { action: 'start', title: 'Start' },
+      { action: 'snooze', title: `Snooze ${NOTIFICATION_SNOOZE_MINUTES}m` },
+      { action: 'skip', title: 'Skip' },
+    ],
+  });
+
+export const notifyBreakComplete = (activeBreak: { id: string; name: string }) =>
+  show(`${activeBreak.name} complete`, {
+    body: 'Nice work. Back to it!',
+    tag: `done-${activeBreak.id}`,
+    data: { reminderId: activeBreak.id },
+  });
+
+// Dismiss a due notification once the break was handled inside the app
+export const clearBreakDueNotification = async (reminderId: string) => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const notifications = await registration?.getNotifications({ tag: `due-${reminderId}` });
+    notifications?.forEach(n => n.close());
+  } catch (error) {
+    console.error('Failed to clear notification', error);
+  }
+};
+
+export const onNotificationAction = (handler: (message: NotificationActionMessage) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'notification-action') handler(event.data as NotificationActionMessage);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+// Action requested through the URL when the service worker had to open a new window
+export const consumeNotificationActionFromUrl = (): NotificationActionMessage | null => {
+  const params = new URLSearchParams(window.location.search);
+  const action = params.get('notificationAction') as NotificationAction | null;
+  const reminderId = params.get('reminder') ?? undefined;
+  if (!action) return null;
+  params.delete('notificationAction');
+  params.delete('reminder');
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  return { type: 'notification-action', action, reminderId };
+};
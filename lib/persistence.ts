@@ -0,0 +1,150 @@
+import { MIGRATIONS } from './migrations';
+import { isProfileKey } from './profiles';
+
+// --- PERSISTENCE ---
+// Everything persisted goes through here: the stored schema version, ordered
+// migrations run once at startup, and per-key validation on load. Data that fails
+// validation is quarantined (kept verbatim under QUARANTINE_KEY) rather than dropped.
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+export const QUARANTINE_KEY = 'quarantine';
+export const PRE_MIGRATION_BACKUP_KEY = 'preMigrationBackup';
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length > 0 ? MIGRATIONS[MIGRATIONS.length - 1].version : 1;
+
+// Keys owned by the app; used to detect existing installs and for backups. Since schema
+// version 6 the per-user ones are stored once per profile (lib/profiles.ts).
+export const PERSISTED_KEYS = [
+  'userName', 'reminders', 'stats', 'history', 'theme', 'isSessionActive', 'notificationPromptDismissed',
+  'pendingBreaks', 'activeBreaks', 'settings', 'dndUntil', 'heldBreaks',
+  'workSessionMark', 'daySummaries', 'quoteHistory', 'syncState', 'syncTombstones', 'profiles', 'activeProfile',
+];
+
+const MAX_QUARANTINE_ENTRIES = 10;
+
+export type Schema<T> = {
+  validate: (value: unknown) => value is T;
+  // Recover what's usable from an invalid value, or null to fall back to the initial value
+  salvage?: (value: unknown) => T | null;
+};
+export type QuarantineEntry = { key: string; raw: string; reason: string; at: number };
+
+// Parsed-JSON view of a Storage used by migrations
+export type MigrationStore = {
+  get: (key: string) => unknown;
+  set: (key: string, value: unknown) => void;
+  remove: (key: string) => void;
+};
+
+export const arrayOf = <T>(check: (value: unknown) => value is T): Schema<T[]> => ({
+  validate: (value): value is T[] => Array.isArray(value) && value.every(check),
+  salvage: value => (Array.isArray(value) ? value.filter(check) : null),
+});
+
+export const guard = <T>(validate: (value: unknown) => value is T): Schema<T> => ({ validate });
+
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+export const isNullableString = (value: unknown): value is string | null => value === null || typeof value === 'string';
+export const isNullableNumber = (value: unknown): value is number | null => value === null || (typeof value === 'number' && Number.isFinite(value));
+
+const createMigrationStore = (storage: Storage): MigrationStore => ({
+  get: key => {
+    const raw = storage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return undefined; // left as-is; quarantined when loaded
+    }
+  },
+  set: (key, value) => storage.setItem(key, JSON.stringify(value)),
+  remove: key => storage.removeItem(key),
+});
+
+export const readQuarantine = (storage: Storage = window.localStorage): QuarantineEntry[] => {
+  try {
+    const entries = JSON.parse(storage.getItem(QUARANTINE_KEY) ?? '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearQuarantine = (storage: Storage = window.localStorage) => storage.removeItem(QUARANTINE_KEY);
+
+const quarantine = (storage: Storage, key: string, raw: string, reason: string) => {
+  console.warn(`Stored "${key}" is unreadable (${reason}); a copy was kept under "${QUARANTINE_KEY}".`);
+  try {
+    const entries = [...readQuarantine(storage), { key, raw, reason, at: Date.now() }].slice(-MAX_QUARANTINE_ENTRIES);
+    storage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to quarantine stored data', error);
+  }
+};
+
+// Reads, parses and validates one key. Invalid data is quarantined, then salvaged if possible.
+export const loadValue = <T>(key: string, initialValue: T, schema?: Schema<T>, storage: Storage = window.localStorage): T => {
+  let raw: string | null;
+  try {
+    raw = storage.getItem(key);
+  } catch (error) {
+    console.error(error);
+    return initialValue;
+  }
+  if (raw === null) return initialValue;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    quarantine(storage, key, raw, 'not valid JSON');
+    return initialValue;
+  }
+
+  if (!schema || schema.validate(parsed)) return parsed as T;
+
+  quarantine(storage, key, raw, 'does not match the expected shape');
+  const salvaged = schema.salvage?.(parsed) ?? null;
+  if (salvaged !== null) {
+    storage.setItem(key, JSON.stringify(salvaged));
+    return salvaged;
+  }
+  return initialValue;
+};
+
+const readVersion = (storage: Storage) => {
+  const stored = Number(storage.getItem(SCHEMA_VERSION_KEY));
+  if (Number.isInteger(stored) && stored > 0) return stored;
+  // Data written before versioning existed is version 1; a fresh install starts current
+  return PERSISTED_KEYS.some(key => storage.getItem(key) !== null) ? 1 : CURRENT_SCHEMA_VERSION;
+};
+
+// Brings stored data up to CURRENT_SCHEMA_VERSION. Must run before any state is loaded.
+export const runMigrations = (storage: Storage = window.localStorage) => {
+  try {
+    let version = readVersion(storage);
+    const pending = MIGRATIONS.filter(m => m.version > version);
+
+    if (pending.length > 0) {
+      // Keep the untouched data around in case a migration goes wrong
+      const snapshot: Record<string, string> = {};
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        const raw = key === null ? null : storage.getItem(key);
+        if (key !== null && raw !== null && (PERSISTED_KEYS.includes(key) || isProfileKey(key))) snapshot[key] = raw;
+      }
+      storage.setItem(PRE_MIGRATION_BACKUP_KEY, JSON.stringify({ version, at: Date.now(), data: snapshot }));
+
+      const store = createMigrationStore(storage);
+      for (const migration of pending) {
+        migration.up(store);
+        version = migration.version;
+        storage.setItem(SCHEMA_VERSION_KEY, String(version));
+      }
+    } else if (storage.getItem(SCHEMA_VERSION_KEY) === null) {
+      storage.setItem(SCHEMA_VERSION_KEY, String(version));
+    }
+  } catch (error) {
+    // Stop at the last successful version; the next load retries the rest
+    console.error('Failed to migrate stored data', error);
+  }
+};
@@ -0,0 +1,55 @@
+import type { Profile } from './types';
+
+// --- PROFILES ---
+// Several people, or separate work and home habits, can share one device. Each profile
+// keeps its own copy of every per-user key under a prefix (see profileStorage); the
+// profile list, schema version, quarantine and scheduler lease are shared by the device.
+// Only the active profile is open, so only its reminders run.
+
+export const PROFILES_KEY = 'profiles';
+export const ACTIVE_PROFILE_KEY = 'activeProfile';
+// Data from before profiles existed moves here (schema version 6)
+export const DEFAULT_PROFILE_ID = 'default';
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+// Keys each profile has its own copy of
+export const PROFILE_KEYS = [
+  'reminders', 'stats', 'history', 'theme', 'isSessionActive', 'pendingBreaks', 'activeBreaks', 'settings',
+  'dndUntil', 'heldBreaks', 'workSessionMark', 'daySummaries', 'quoteHistory', 'syncState', 'syncTombstones',
+];
+
+const PROFILE_PREFIX = 'profile.';
+
+export const isProfileKey = (storageKey: string) => storageKey.startsWith(PROFILE_PREFIX);
+
+// Where a key is stored for a profile; device-wide keys are left as they are
+export const profileKey = (profileId: string, key: string) =>
+  PROFILE_KEYS.includes(key) ? `${PROFILE_PREFIX}${profileId}.${key}` : key;
+
+// A Storage that reads and writes one profile's keys, for code written against plain
+// localStorage (loadValue, restoreBreaks)
+export const profileStorage = (storage: Storage, profileId: string): Storage => ({
+  get length() {
+    return storage.length;
+  },
+  key: index => storage.key(index),
+  getItem: key => storage.getItem(profileKey(profileId, key)),
+  setItem: (key, value) => storage.setItem(profileKey(profileId, key), value),
+  removeItem: key => storage.removeItem(profileKey(profileId, key)),
+  clear: () => deleteProfileData(storage, profileId),
+});
+
+export const cleanProfileName = (name: string) => name.trim().replace(/\s+/g, ' ').slice(0, MAX_PROFILE_NAME_LENGTH);
+
+export const createProfile = (name: string, existing: Profile[], now = Date.now()): Profile => {
+  let id = now.toString(36);
+  while (existing.some(p => p.id === id)) id = `${id}-${existing.length}`;
+  return { id, name: cleanProfileName(name), createdAt: now };
+};
+
+export const renameProfile = (profiles: Profile[], id: string, name: string) =>
+  profiles.map(p => (p.id === id ? { ...p, name: cleanProfileName(name) } : p));
+
+export const deleteProfileData = (storage: Storage, profileId: string) => {
+  for (const key of PROFILE_KEYS) storage.removeItem(profileKey(profileId, key));
+};
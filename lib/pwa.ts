@@ -0,0 +1,46 @@
+// --- INSTALLABLE APP ---
+// The service worker (public/sw.js) caches the app shell so the app starts offline.
+// A new build installs next to the running one and waits; the app offers to reload,
+// and every open tab reloads once the new worker takes over.
+
+const SW_URL = '/sw.js';
+
+// Long-running tabs look for a new build this often
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+// Returns a cleanup function; `onUpdateReady` gets the worker waiting to take over
+export const startServiceWorker = (onUpdateReady: (worker: ServiceWorker) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const container = navigator.serviceWorker;
+  // Without a controller the first install is taking over, which needs no reload
+  const hadController = container.controller !== null;
+  const reload = () => {
+    if (hadController) window.location.reload();
+  };
+  container.addEventListener('controllerchange', reload);
+
+  let intervalId: ReturnType<typeof setInterval> | undefined;
+  let stopped = false;
+  container.register(SW_URL).then(registration => {
+    if (stopped) return;
+    if (registration.waiting && container.controller) onUpdateReady(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && container.controller) onUpdateReady(worker);
+      });
+    });
+    intervalId = setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+  }).catch(error => {
+    console.error('Service worker registration failed', error);
+  });
+
+  return () => {
+    stopped = true;
+    clearInterval(intervalId);
+    container.removeEventListener('controllerchange', reload);
+  };
+};
+
+// Lets the waiting worker take over; the controllerchange listener then reloads
+export const applyUpdate = (worker: ServiceWorker) => worker.postMessage({ type: 'skip-waiting' });
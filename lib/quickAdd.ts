@@ -0,0 +1,186 @@
+import type { Reminder } from './types';
+import { dayKey } from './history';
+import { formatDuration } from './scheduling';
+
+// --- QUICK ADD ---
+// Rule-based, offline parser for one-line reminders such as
+//   "water sip every 45 minutes for 10 seconds"
+//   "stretch at 3pm for 5 min"
+//   "eye break every 20m weekdays from 9 to 5"
+// Each rule removes the phrase it understood; whatever is left becomes the name.
+
+export type QuickAddDraft = Pick<Reminder, 'name' | 'type' | 'durationSeconds' | 'intervalSeconds' | 'triggerTime' | 'days' | 'windowStart' | 'windowEnd' | 'date'>;
+export type QuickAddResult = { ok: true; draft: QuickAddDraft; notes: string[] } | { ok: false; error: string };
+
+export const QUICK_ADD_EXAMPLES = [
+  'water sip every 45 minutes for 10 seconds',
+  'stretch at 3pm for 5 min',
+  'eye break every 20m weekdays',
+];
+
+const DEFAULT_DURATION_SECONDS = 120;
+
+const AMOUNT = String.raw`(\d+(?:\.\d+)?|an?|one|half an?)`;
+const UNIT = String.raw`(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h)`;
+const TIME = String.raw`(noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.)?)`;
+
+const DAY_NAMES: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+// Full names anywhere; abbreviations only in a list ("on mon, wed and fri") so "Sun salutation" stays a name
+const DAY_PATTERN = /(?:\b(?:on|and)\s+|,\s*)(sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)\b\.?|\b(?:(?:on|and)\s+|,\s*)?(sun|mon|tues|wednes|thurs|fri|satur)days?\b/i;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const toSeconds = (amount: string | undefined, unit: string) => {
+  const a = amount?.toLowerCase();
+  const n = !a || a === 'a' || a === 'an' || a === 'one' ? 1 : a.startsWith('half') ? 0.5 : Number(a);
+  const u = unit.toLowerCase();
+  if (u.startsWith('h')) return n * 3600;
+  if (u.startsWith('s')) return n;
+  return n * 60;
+};
+
+// "3pm", "15:30", "9" (taken as written), "noon" -> minutes since midnight, whether am/pm or
+// minutes were given, and whether it could be either half of the day ("3", "3:30", not "03:00")
+const parseTime = (text: string) => {
+  const t = text.toLowerCase().replace(/\./g, '').replace(/\s+/g, '');
+  if (t === 'noon') return { minutes: 12 * 60, explicit: true, ambiguous: false };
+  if (t === 'midnight') return { minutes: 0, explicit: true, ambiguous: false };
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(t);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3];
+  if (minutes > 59 || hours > 23 || (meridiem && (hours === 0 || hours > 12))) return null;
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return {
+    minutes: hours * 60 + minutes,
+    explicit: Boolean(meridiem) || match[2] !== undefined,
+    ambiguous: !meridiem && !match[1].startsWith('0') && hours >= 1 && hours <= 12,
+  };
+};
+
+const formatTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+// "2025-02-30" -> null: Date would quietly roll it over to March
+const parseDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  const day = new Date(y, m - 1, d);
+  return day.getFullYear() === y && day.getMonth() === m - 1 && day.getDate() === d ? day : null;
+};
+
+// The time of `minutes` on `day`
+const timeOn = (day: Date, minutes: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60).getTime();
+
+export const parseQuickAdd = (input: string, now = Date.now()): QuickAddResult => {
+  let rest = ` ${input.trim().replace(/\s+/g, ' ')} `;
+  if (rest.trim() === '') return { ok: false, error: `Describe a reminder, e.g. “${QUICK_ADD_EXAMPLES[0]}”.` };
+
+  // Pulls the first match of `pattern` out of the text
+  const take = (pattern: RegExp) => {
+    const match = pattern.exec(rest);
+    if (match) rest = `${rest.slice(0, match.index)} ${rest.slice(match.index + match[0].length)}`;
+    return match;
+  };
+
+  rest = rest.replace(/^\s*(?:remind me to|remind me|reminder to)\s+/i, ' ');
+
+  let days: number[] | undefined;
+  if (take(/\b(?:on\s+)?(?:weekdays|work ?days)\b/i)) days = [1, 2, 3, 4, 5];
+  else if (take(/\b(?:on\s+)?(?:weekends?)\b/i)) days = [6, 0];
+  else if (take(/\b(?:every ?day|daily|each day)\b/i)) days = undefined;
+  const named = new Set<number>();
+  let dayMatch: RegExpExecArray | null;
+  while ((dayMatch = take(DAY_PATTERN))) {
+    named.add(DAY_NAMES[(dayMatch[1] ?? dayMatch[2]).slice(0, 3).toLowerCase()]);
+  }
+  if (named.size > 0) days = [...(days ?? []), ...named].filter((d, i, all) => all.indexOf(d) === i);
+
+  const every = take(new RegExp(String.raw`\bevery\s+(?:${AMOUNT}\s*)?${UNIT}\b`, 'i'));
+  const intervalSeconds = every ? toSeconds(every[1], every[2]) : take(/\bhourly\b/i) ? 3600 : null;
+  const duration = take(new RegExp(String.raw`\bfor\s+(?:${AMOUNT}\s*)?${UNIT}\b`, 'i'));
+  const range = take(new RegExp(String.raw`\b(?:from|between)\s+${TIME}\s*(?:to|until|till|and|-|–)\s*${TIME}(?=\s)`, 'i'));
+  const at = take(new RegExp(String.raw`\bat\s+${TIME}(?=\s)`, 'i'));
+
+  let date: string | undefined;
+  const dateWord = take(/\b(today|tonight|tomorrow)\b/i) ?? take(/\bon\s+(\d{4}-\d{2}-\d{2})\b/i);
+  if (dateWord) {
+    const word = dateWord[1].toLowerCase();
+    date = word === 'tomorrow' ? dayKey(new Date(now).setDate(new Date(now).getDate() + 1))
+      : word === 'today' || word === 'tonight' ? dayKey(now)
+      : word;
+  }
+
+  // Anything that still looks like a rule wasn't understood
+  const leftover = /\b(?:every|for|at|from|between)\s+(?:\d|an?\b|half\b)\S*/i.exec(rest);
+  if (leftover) return { ok: false, error: `Couldn’t understand “${leftover[0]}”. Try “every 20 minutes”, “for 30 seconds” or “at 3pm”.` };
+
+  const name = rest.replace(/\s*,\s*/g, ' ').replace(/^(?:\s|\band\b|\bon\b|-)+|(?:\s|\band\b|\bon\b|-)+$/gi, '').replace(/\s+/g, ' ');
+  if (!name) return { ok: false, error: 'Start with what the reminder is for, e.g. “stretch at 3pm”.' };
+
+  if (intervalSeconds !== null && at) return { ok: false, error: 'Use either “every …” or “at …”, not both.' };
+  if (intervalSeconds === null && !at) return { ok: false, error: 'Say how often (“every 45 minutes”) or when (“at 3pm”).' };
+  if (days && days.length === 0) return { ok: false, error: 'Pick at least one day.' };
+
+  const notes: string[] = [];
+  const draft: QuickAddDraft = {
+    name: name.charAt(0).toUpperCase() + name.slice(1),
+    type: intervalSeconds !== null ? 'recurring' : 'once',
+    durationSeconds: DEFAULT_DURATION_SECONDS,
+  };
+
+  if (duration) {
+    const seconds = Math.round(toSeconds(duration[1], duration[2]));
+    if (!(seconds > 0)) return { ok: false, error: 'The break needs a length, e.g. “for 5 minutes”.' };
+    draft.durationSeconds = seconds;
+  } else {
+    notes.push(`No length given; using ${formatDuration(DEFAULT_DURATION_SECONDS)}.`);
+  }
+
+  if (intervalSeconds !== null) {
+    if (date) return { ok: false, error: 'Dates only work with “at …” reminders. Use weekdays for repeating ones.' };
+    if (!(intervalSeconds >= 1)) return { ok: false, error: 'The interval must be at least a second.' };
+    draft.intervalSeconds = Math.round(intervalSeconds);
+    if (draft.durationSeconds >= draft.intervalSeconds) return { ok: false, error: 'The break has to be shorter than the time between breaks.' };
+    if (range) {
+      const start = parseTime(range[1]);
+      const end = parseTime(range[2]);
+      if (!start || !end) return { ok: false, error: `“${range[0].trim()}” isn’t a valid time range.` };
+      // "from 9 to 5" means 9:00 to 17:00
+      let endMinutes = end.minutes;
+      if (!end.explicit && endMinutes <= start.minutes && endMinutes + 12 * 60 < 24 * 60) endMinutes += 12 * 60;
+      if (endMinutes <= start.minutes) return { ok: false, error: 'The active window must end after it starts.' };
+      draft.windowStart = formatTime(start.minutes);
+      draft.windowEnd = formatTime(endMinutes);
+    }
+  } else if (at) {
+    if (range) return { ok: false, error: 'A time range only works with “every …” reminders.' };
+    const time = parseTime(at[1]);
+    if (!time) return { ok: false, error: `“${at[1]}” isn’t a valid time.` };
+    // "at 3" could be 03:00 or 15:00
+    const candidates = time.ambiguous ? [time.minutes % (12 * 60), time.minutes % (12 * 60) + 12 * 60] : [time.minutes];
+    let minutes = candidates[0];
+    if (date) {
+      if (days) return { ok: false, error: 'Use either a date or weekdays, not both.' };
+      const day = parseDate(date);
+      if (!day) return { ok: false, error: `“${date}” isn’t a valid date.` };
+      const upcoming = candidates.filter(m => timeOn(day, m) >= now);
+      if (upcoming.length === 0) return { ok: false, error: 'That date and time is already in the past.' };
+      // Both halves of a later day are still ahead, so only the user can say which
+      if (upcoming.length > 1) return { ok: false, error: `Say “${at[1].trim()}am” or “${at[1].trim()}pm”.` };
+      minutes = upcoming[0];
+      draft.date = date;
+    } else if (candidates.length > 1) {
+      // The next one to come round
+      const today = new Date(now);
+      const next = (m: number) => (timeOn(today, m) >= now ? 0 : 1) * 24 * 60 + m;
+      minutes = candidates.reduce((a, b) => (next(b) < next(a) ? b : a));
+    }
+    if (time.ambiguous) notes.push(`Took “at ${at[1].trim()}” as ${formatTime(minutes)}, the next one coming up.`);
+    draft.triggerTime = formatTime(minutes);
+  }
+
+  if (days && days.length < 7) draft.days = days;
+  return { ok: true, draft, notes };
+};
@@ -0,0 +1,64 @@
+import type { HeldBreak, QuietHours, Reminder } from './types';
+
+// --- QUIET HOURS & DO NOT DISTURB ---
+// Quiet hours are a daily window such as 22:00–07:00; it may wrap past midnight.
+// Do Not Disturb is a one-off pause until a given moment. While either is on, no
+// sounds play and reminders that come due are held: dropped, or collected into one
+// catch-up prompt for when it ends, depending on the `heldReminders` setting.
+
+export const DND_KEY = 'dndUntil';
+export const HELD_BREAKS_KEY = 'heldBreaks';
+
+export const DND_PRESET_MINUTES = [30, 60];
+
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const isQuietTime = (quietHours: QuietHours | null, now = Date.now()) => {
+  if (!quietHours) return false;
+  const d = new Date(now);
+  const minute = d.getHours() * 60 + d.getMinutes();
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+  if (start === end) return false;
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+export const isDndActive = (dndUntil: number | null, now = Date.now()) => dndUntil !== null && now < dndUntil;
+
+// Why reminders are being held right now, if they are
+export const holdReason = (quietHours: QuietHours | null, dndUntil: number | null, now = Date.now()) =>
+  isDndActive(dndUntil, now) ? 'dnd' as const : isQuietTime(quietHours, now) ? 'quiet' as const : null;
+
+// "Until 14:30": today, or tomorrow once that time has passed
+export const dndUntilTime = (hhmm: string, now = Date.now()) => {
+  const d = new Date(now);
+  const minutes = minutesOf(hhmm);
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (d.getTime() <= now) d.setDate(d.getDate() + 1);
+  return d.getTime();
+};
+
+// "Until tomorrow": the next local midnight
+export const dndUntilTomorrow = (now = Date.now()) => {
+  const d = new Date(now);
+  d.setHours(24, 0, 0, 0);
+  return d.getTime();
+};
+
+// Adds reminders that came due while held; one entry per reminder with a running count
+export const holdBreaks = (held: HeldBreak[], due: Reminder[], now: number): HeldBreak[] => {
+  const next = [...held];
+  for (const reminder of due) {
+    const index = next.findIndex(h => h.reminderId === reminder.id);
+    if (index === -1) next.push({ reminderId: reminder.id, reminderName: reminder.name, count: 1, lastAt: now });
+    else next[index] = { ...next[index], reminderName: reminder.name, count: next[index].count + 1, lastAt: now };
+  }
+  return next;
+};
+
+// "Water sip ×3, Stretch"
+export const describeHeld = (held: HeldBreak[]) =>
+  held.map(h => (h.count > 1 ? `${h.reminderName} ×${h.count}` : h.reminderName)).join(', ');
@@ -0,0 +1,258 @@
+import type { QuoteTheme } from './types';
+
+// --- QUOTE CORPUS ---
+// Served when Gemini is unavailable, and for the offline quote of the day. Attributions
+// are only given where the source is well established; the rest are house lines.
+
+export type CorpusEntry = [quote: string, attribution?: string];
+
+export const QUOTE_CORPUS: Record<QuoteTheme, CorpusEntry[]> = {
+  calm: [
+    ['We are more often frightened than hurt; and we suffer more from imagination than from reality.', 'Seneca'],
+    ['People are not disturbed by things, but by the views they take of them.', 'Epictetus'],
+    ['Almost everything will work again if you unplug it for a few minutes, including you.', 'Anne Lamott'],
+    ['Adopt the pace of nature: her secret is patience.', 'Ralph Waldo Emerson'],
+    ['Feelings come and go like clouds in a windy sky. Conscious breathing is my anchor.', 'Thich Nhat Hanh'],
+    ['Smile, breathe and go slowly.', 'Thich Nhat Hanh'],
+    ['Very little is needed to make a happy life; it is all within yourself, in your way of thinking.', 'Marcus Aurelius'],
+    ['Such as are your habitual thoughts, such also will be the character of your mind.', 'Marcus Aurelius'],
+    ['Worry does not empty tomorrow of its sorrow, it empties today of its strength.', 'Corrie ten Boom'],
+    ['Nothing can bring you peace but yourself.', 'Ralph Waldo Emerson'],
+    ['He who knows he has enough is rich.', 'Lao Tzu'],
+    ['The time to relax is when you don\'t have time for it.', 'Sydney J. Harris'],
+    ['Within you there is a stillness and a sanctuary to which you can retreat at any time and be yourself.', 'Hermann Hesse'],
+    ['Rest is not idleness, and to lie sometimes on the grass under trees on a summer\'s day, listening to the murmur of the water, or watching the clouds float across the sky, is by no means a waste of time.', 'John Lubbock'],
+    ['Breath is the bridge which connects life to consciousness, which unites your body to your thoughts.', 'Thich Nhat Hanh'],
+    ['One slow breath is a small act of courage.'],
+    ['The inbox will still be there after you exhale.'],
+    ['You don\'t have to finish the day in the next five minutes.'],
+    ['Calm is not the absence of noise; it is not letting the noise decide for you.'],
+    ['Put the worry down for one minute. You can pick it up again later if you still want it.'],
+    ['Unclench your jaw. Drop your shoulders. Begin again.'],
+    ['A pause is not a delay. It is where the next good decision comes from.'],
+    ['The mind settles the way water clears: by being left alone for a moment.'],
+    ['Not every thought needs an answer right now.'],
+    ['Be gentle with the person doing their best, including you.'],
+    ['Rushing rarely gets you there sooner; it only gets you there tired.'],
+    ['Let this breath be the only thing you have to do.'],
+    ['Stress shouts; wisdom waits its turn.'],
+    ['You can be busy on the outside and unhurried on the inside.'],
+    ['Peace is a practice, not a place you arrive at.'],
+    ['Step back far enough and most emergencies turn into errands.'],
+    ['What you resist for an hour, you can accept for a minute.'],
+    ['A quiet minute now saves a loud hour later.'],
+    ['The day is long enough for what truly matters.'],
+    ['Soft eyes, slow breath, steady hands.'],
+    ['Some days the win is simply staying kind.'],
+    ['Notice the tension, name it, and let the next breath carry it out.'],
+    ['You are allowed to do one thing at a time.'],
+    ['Slow is not the opposite of productive.'],
+    ['Ease is a skill, and every break is practice.'],
+    ['The storm passes faster when you stop arguing with the weather.'],
+    ['Leave a little space between what happens and what you do next.'],
+    ['Today does not need to be perfect to be good.'],
+    ['Breathe in what you need; breathe out what you don\'t.'],
+    ['A calm mind sees more options than a hurried one.'],
+    ['Let the small things stay small.'],
+    ['You have made it through every hard day so far. This one is no different.'],
+    ['Put down the phone, look out the window, and let your eyes rest on something far away.'],
+    ['Patience is just trust, stretched over time.'],
+    ['Quiet is not empty; it is full of room.'],
+    ['The present moment is rarely as heavy as the story we tell about it.'],
+    ['Loosen your grip on the day and it stops fighting back.'],
+    ['Everything you need to handle this moment is already here.'],
+    ['Relax your shoulders; they are not holding up the sky.'],
+    ['A few minutes of stillness can reset a whole afternoon.'],
+    ['Be where your feet are.'],
+    ['The wave will pass. Let it.'],
+    ['Take the next breath as if it were the first one of the day.'],
+    ['Calm spreads. Start with yours.'],
+    ['There is always time for one deep breath.'],
+  ],
+  discipline: [
+    ['We are what we repeatedly do. Excellence, then, is not an act, but a habit.', 'Will Durant'],
+    ['First say to yourself what you would be; and then do what you have to do.', 'Epictetus'],
+    ['Motivation is what gets you started. Habit is what keeps you going.', 'Jim Rohn'],
+    ['Success is the sum of small efforts, repeated day in and day out.', 'Robert Collier'],
+    ['A journey of a thousand miles begins with a single step.', 'Lao Tzu'],
+    ['You do not rise to the level of your goals. You fall to the level of your systems.', 'James Clear'],
+    ['Every action you take is a vote for the type of person you wish to become.', 'James Clear'],
+    ['How we spend our days is, of course, how we spend our lives.', 'Annie Dillard'],
+    ['The chains of habit are too weak to be felt until they are too strong to be broken.', 'Samuel Johnson'],
+    ['No man is free who is not master of himself.', 'Epictetus'],
+    ['Waste no more time arguing about what a good man should be. Be one.', 'Marcus Aurelius'],
+    ['Small deeds done are better than great deeds planned.', 'Peter Marshall'],
+    ['Perseverance is not a long race; it is many short races one after the other.', 'Walter Elliot'],
+    ['Well begun is half done.', 'Aristotle'],
+    ['The best way out is always through.', 'Robert Frost'],
+    ['Show up on the days you don\'t feel like it; those are the days that count twice.'],
+    ['Keep the promise small enough that you can keep it every day.'],
+    ['Consistency beats intensity when the race is a lifetime long.'],
+    ['You don\'t need more willpower, just fewer decisions.'],
+    ['Do it badly today so you can do it better tomorrow.'],
+    ['The habit is the vote; the streak is just the tally.'],
+    ['Missing once is an accident. Missing twice is the start of a new habit.'],
+    ['Make the good choice the easy choice.'],
+    ['Discipline is remembering what you want.'],
+    ['Start so small it feels almost silly. Then don\'t stop.'],
+    ['A two-minute habit done daily outlasts a two-hour plan done never.'],
+    ['The work doesn\'t care how you feel about it; do it anyway, and the feeling follows.'],
+    ['Routine is freedom wearing work clothes.'],
+    ['Every rep is a small promise kept to yourself.'],
+    ['Don\'t wait for the perfect week. Use the ordinary one.'],
+    ['Progress hides in the days that feel like nothing happened.'],
+    ['You become reliable to yourself one small kept promise at a time.'],
+    ['Plans are wishes until they have a time and a place.'],
+    ['Action first; motivation catches up.'],
+    ['When in doubt, do the smallest useful thing.'],
+    ['Repetition turns effort into ease.'],
+    ['The best time was earlier. The next best time is this break.'],
+    ['Good habits are built on boring days.'],
+    ['Do the thing you said you would, especially when no one is watching.'],
+    ['A streak is just yesterday\'s effort asking you not to waste it.'],
+    ['Slow progress is still progress; stopping is not.'],
+    ['Decide once, then let the habit carry you.'],
+    ['Discipline is choosing between what you want now and what you want most.'],
+    ['Effort compounds quietly.'],
+    ['Tiny steps climb big mountains.'],
+    ['Your future self is built out of what you do today.'],
+    ['Finish the small thing in front of you.'],
+    ['Don\'t negotiate with the alarm; you already decided last night.'],
+    ['Structure gives the day a spine.'],
+    ['Show up, do the work, rest. Repeat.'],
+    ['You don\'t have to be extreme, just consistent.'],
+    ['Let your actions be louder than your intentions.'],
+    ['If it matters, put it on the calendar.'],
+    ['The chain grows one link at a time.'],
+    ['Practice makes permanent, so practice well.'],
+    ['It is easier to keep going than to start again.'],
+    ['Commitment is doing it on the day it doesn\'t fit.'],
+    ['Begin before you feel ready.'],
+    ['Keep the bar low and the frequency high.'],
+    ['Resolve is a muscle; every kept habit makes it stronger.'],
+  ],
+  health: [
+    ['Take care of your body. It\'s the only place you have to live.', 'Jim Rohn'],
+    ['Sleep is the golden chain that ties health and our bodies together.', 'Thomas Dekker'],
+    ['Those who think they have no time for bodily exercise will sooner or later have to find time for illness.', 'Edward Stanley'],
+    ['It is health that is real wealth and not pieces of gold and silver.', 'Mahatma Gandhi'],
+    ['A good laugh and a long sleep are the best cures in the doctor\'s book.', 'Irish proverb'],
+    ['Only thoughts reached by walking have value.', 'Friedrich Nietzsche'],
+    ['Methinks that the moment my legs begin to move, my thoughts begin to flow.', 'Henry David Thoreau'],
+    ['Rest when you\'re weary. Refresh and renew yourself, your body, your mind, your spirit. Then get back to work.', 'Ralph Marston'],
+    ['The body benefits from movement, and the mind benefits from stillness.', 'Sakyong Mipham'],
+    ['Eat food. Not too much. Mostly plants.', 'Michael Pollan'],
+    ['Your body hears everything your mind says.', 'Naomi Judd'],
+    ['Drink a glass of water. Your brain is mostly asking for that.'],
+    ['Stand up, stretch tall, and let your spine remember its length.'],
+    ['Your eyes were made for horizons, not only for screens. Look far away for a moment.'],
+    ['A short walk is a reset button you carry everywhere.'],
+    ['Move a little, often. Your body keeps score in small numbers.'],
+    ['Sitting still is a habit too. Break it kindly.'],
+    ['Roll your shoulders back; carry the day more lightly.'],
+    ['Hydration is the cheapest energy boost there is.'],
+    ['Health is built between meetings, one stretch at a time.'],
+    ['Rest is part of the training, not a break from it.'],
+    ['Blink, breathe, stretch. Then carry on.'],
+    ['Treat your body like someone you love is living in it.'],
+    ['Posture is a conversation between you and gravity; take a minute to listen.'],
+    ['Tired is information, not failure.'],
+    ['A few deep breaths change how you feel in under a minute.'],
+    ['Good sleep starts with how you treat the afternoon.'],
+    ['Your back will thank you for every time you stood up.'],
+    ['Fresh air is a free medicine with no side effects.'],
+    ['The strongest habit is the one that keeps you moving for decades.'],
+    ['Energy is not found; it is restored.'],
+    ['Small sips, small steps, small stretches: they add up.'],
+    ['Listen to your body while it is still whispering.'],
+    ['A glass of water and a glance out the window can rescue an afternoon.'],
+    ['Taking care of yourself is part of the work.'],
+    ['You can\'t pour from an empty cup. Refill it.'],
+    ['Every hour deserves at least one minute of movement.'],
+    ['Gentle movement today prevents stiff regret tomorrow.'],
+    ['Your wrists, neck and eyes work hard all day. Give them a break.'],
+    ['Health is not a destination; it is a daily direction.'],
+    ['Moving your body is one of the fastest ways to change your mind.'],
+    ['Step away from the desk; the ideas will follow you.'],
+    ['Good health is a collection of small, boring, repeated choices.'],
+    ['Stretch now, before your body has to remind you.'],
+    ['Rested people make better decisions.'],
+    ['Sunlight, water, movement, sleep. Start with whichever is closest.'],
+    ['Be as patient with your body as you would be with a friend\'s.'],
+    ['Loosen your neck; you\'ve been carrying thoughts all morning.'],
+    ['A healthy day is mostly made of ordinary minutes done well.'],
+    ['Stand up like you mean it.'],
+    ['Breathe deep enough that your belly moves.'],
+    ['Feed your body something that will thank you in an hour.'],
+    ['Let your eyes rest: look at something twenty feet away for twenty seconds.'],
+    ['Walking meetings count. So do walking thoughts.'],
+    ['The best exercise is the one you will actually do.'],
+    ['You are not a machine, and even machines need maintenance.'],
+    ['Recovery is productive.'],
+    ['A healthy routine is a gift you give your future mornings.'],
+    ['Your body is on your side. Work with it.'],
+    ['Unplug your eyes, plug in your legs.'],
+  ],
+  focus: [
+    ['Concentrate all your thoughts upon the work at hand. The sun\'s rays do not burn until brought to a focus.', 'Alexander Graham Bell'],
+    ['To do two things at once is to do neither.', 'Publilius Syrus'],
+    ['My experience is what I agree to attend to.', 'William James'],
+    ['If you chase two rabbits, you will not catch either one.', 'Russian proverb'],
+    ['The key is not to prioritize what\'s on your schedule, but to schedule your priorities.', 'Stephen Covey'],
+    ['The main thing is to keep the main thing the main thing.', 'Stephen Covey'],
+    ['Clutter is nothing more than postponed decisions.', 'Barbara Hemphill'],
+    ['Attention is the rarest and purest form of generosity.', 'Simone Weil'],
+    ['Lost time is never found again.', 'Benjamin Franklin'],
+    ['Simplicity boils down to two steps: identify the essential, eliminate the rest.', 'Leo Babauta'],
+    ['Clarity about what matters provides clarity about what does not.', 'Cal Newport'],
+    ['It is not enough to be busy; so are the ants. The question is: what are we busy about?', 'Henry David Thoreau'],
+    ['One tab, one task, one step.'],
+    ['Finish this sentence before you start the next thing.'],
+    ['Focus is saying no to a hundred good ideas so one can happen.'],
+    ['Close what you are not using, in your browser and in your head.'],
+    ['Deep work starts when the notifications stop.'],
+    ['The most important task is usually the one you keep rearranging.'],
+    ['Single-tasking is a superpower hiding in plain sight.'],
+    ['Make the next twenty-five minutes about one thing.'],
+    ['A clear desk is a small gift to a busy mind.'],
+    ['Depth beats speed when the problem is hard.'],
+    ['Distraction is a request; you are allowed to decline.'],
+    ['Write down the stray thought, then return to the work.'],
+    ['The work gets easier about ten minutes after you want to quit.'],
+    ['Protect your best hours like you would protect a meeting with someone important.'],
+    ['Attention is your most valuable currency. Spend it on purpose.'],
+    ['Busy is not the same as moving forward.'],
+    ['Choose the one thing that would make today a good day, and start there.'],
+    ['Momentum is built in minutes of uninterrupted effort.'],
+    ['Every switch costs something. Switch less.'],
+    ['Do less, but do it fully.'],
+    ['The best productivity tool is a closed door.'],
+    ['When you are stuck, make the task smaller, not your focus wider.'],
+    ['Your phone can wait. This thought can\'t.'],
+    ['Put one thing at the center of your attention and let the rest orbit.'],
+    ['The quality of your work follows the quality of your attention.'],
+    ['A break is what makes the next hour of focus possible.'],
+    ['Start with the hardest thing while your mind is fresh.'],
+    ['Work in sprints, rest in between, repeat.'],
+    ['Silence your notifications, not your ambitions.'],
+    ['Keep a short list. Finish it.'],
+    ['You don\'t need more time, just fewer interruptions.'],
+    ['Stay with the problem a little longer than feels comfortable.'],
+    ['Good focus is mostly good boundaries.'],
+    ['If everything is a priority, nothing is.'],
+    ['Notice when you drift, and gently come back. That is the practice.'],
+    ['Let the next task wait its turn.'],
+    ['Finish one thing before you reward yourself with another.'],
+    ['Your attention shapes your day more than your calendar does.'],
+    ['Defend the first hour; it sets the tone for the rest.'],
+    ['Turn big goals into today\'s next action.'],
+    ['Done with care beats done in a hurry.'],
+    ['Give the task your full attention, then give yourself a full break.'],
+    ['Less scrolling, more doing.'],
+    ['The deep end is where the good work lives.'],
+    ['Focus is a choice you renew every few minutes.'],
+    ['Clear the noise; the signal was there all along.'],
+    ['A single page of real progress beats ten pages of planning.'],
+    ['Go deep on one thing before you go wide on many.'],
+  ],
+};
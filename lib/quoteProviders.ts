@@ -0,0 +1,97 @@
+import type { Quote, QuoteTheme } from './types';
+import { buildQuotePrompt, isRepeat, parseQuoteReply } from './quotes';
+import type { QuoteRequest } from './quotes';
+import { QUOTE_CORPUS } from './quoteCorpus';
+
+// --- QUOTE PROVIDERS ---
+// Server side of /api/fetch-quote. Providers are tried in order: Gemini first, then the
+// bundled corpus, which always has an answer. A provider returns null when it has
+// nothing usable for this request and throws when it failed.
+
+export type QuoteProvider = {
+  name: string;
+  getQuote: (request: QuoteRequest, day: string) => Promise<Quote | null>;
+};
+
+// Turns a prompt into the model's raw reply text; swapped for a fake in tests
+export type GenerateText = (prompt: string, apiKey: string) => Promise<string>;
+
+// A second try when the first reply is unusable or repeats a quote the user has seen
+const GEMINI_ATTEMPTS = 2;
+
+export const callGemini: GenerateText = async (prompt, apiKey) => {
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.9,
+          maxOutputTokens: 200,
+          responseMimeType: 'application/json',
+        },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Gemini API error ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  return data?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+};
+
+// Skipped (null) while GEMINI_API_SECRET isn't configured
+export const geminiProvider = (generate: GenerateText = callGemini): QuoteProvider => ({
+  name: 'gemini',
+  getQuote: async request => {
+    const apiKey = process.env.GEMINI_API_SECRET;
+    if (!apiKey) return null;
+    const prompt = buildQuotePrompt(request);
+    for (let attempt = 0; attempt < GEMINI_ATTEMPTS; attempt++) {
+      const quote = parseQuoteReply(await generate(prompt, apiKey), request.theme);
+      if (quote && !isRepeat(quote.quote, request.avoid)) return quote;
+    }
+    return null;
+  },
+});
+
+// FNV-1a; stable across deploys, unlike anything random
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// The same quote for everyone on a given day and theme. Quotes on the `avoid` list are
+// skipped in a fixed order; once every quote of the theme has been seen they repeat.
+export const quoteOfTheDay = (theme: QuoteTheme, day: string, avoid: string[] = []): Quote => {
+  const pool = QUOTE_CORPUS[theme];
+  const start = hash(`${day}:${theme}`) % pool.length;
+  let pick = pool[start];
+  for (let i = 0; i < pool.length; i++) {
+    const entry = pool[(start + i) % pool.length];
+    if (!isRepeat(entry[0], avoid)) {
+      pick = entry;
+      break;
+    }
+  }
+  const [quote, attribution] = pick;
+  return { quote, ...(attribution && { attribution }), category: theme };
+};
+
+// The corpus is English only, so it answers whatever language was asked for
+export const corpusProvider: QuoteProvider = {
+  name: 'corpus',
+  getQuote: async (request, day) => quoteOfTheDay(request.theme, day, request.avoid),
+};
+
+export const DEFAULT_PROVIDERS = [geminiProvider(), corpusProvider];
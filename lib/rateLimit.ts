@@ -0,0 +1,40 @@
+// --- RATE LIMITING ---
+// Fixed-window counter per key (a client IP for the quote endpoint). State lives in
+// memory, so on serverless hosts each warm instance counts on its own: it stops bursts
+// from one client, not a determined abuser spread across instances.
+
+export type RateLimit = { limit: number; windowMs: number };
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterMs: number };
+
+// Windows are pruned once the map grows past this many keys
+const MAX_TRACKED_KEYS = 5000;
+
+export const createRateLimiter = ({ limit, windowMs }: RateLimit) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (key: string, now = Date.now()): RateLimitResult => {
+    let window = windows.get(key);
+    if (!window || now >= window.resetAt) {
+      if (windows.size >= MAX_TRACKED_KEYS) {
+        for (const [k, w] of windows) if (now >= w.resetAt) windows.delete(k);
+      }
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    if (window.count >= limit) return { ok: false, retryAfterMs: window.resetAt - now };
+    window.count += 1;
+    return { ok: true };
+  };
+};
+
+type IncomingRequest = {
+  headers?: Record<string, string | string[] | undefined>;
+  socket?: { remoteAddress?: string };
+};
+
+// The client's address as seen by the platform's proxy
+export const clientIp = (req: IncomingRequest) => {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+};
@@ -0,0 +1,102 @@
+import type { ActiveBreak, BreakEvent, Reminder } from './types';
+import { appendEvents, createBreakEvent, dayKey, HISTORY_KEY } from './history';
+import { isDue } from './scheduling';
+import { abandonsAt, breakEndEvent, breakEndsAt } from './breaks';
+import { arrayOf, guard } from './persistence';
+import { SETTINGS_KEY, withDefaults } from './settings';
+import { isActiveBreak, isBreakEvent, isReminder, isSettings } from './validation';
+import type { StorageAdapter } from './storageAdapter';
+
+// --- BREAK RECOVERY ---
+// Pending and active breaks are persisted so a reload or browser restart can pick them
+// up again. Whatever happened while the app was closed is settled once it opens.
+
+export const PENDING_BREAKS_KEY = 'pendingBreaks';
+export const ACTIVE_BREAKS_KEY = 'activeBreaks';
+
+export type BreakState = {
+  reminders: Reminder[];
+  history: BreakEvent[];
+  pending: Reminder[];
+  active: ActiveBreak[];
+};
+
+// Dated one-offs never come due again, so theirs wait until the day is over
+const missedWhileClosed = (reminder: Reminder, now: number) =>
+  isDue(reminder, now) || (reminder.type === 'once' && !!reminder.date && reminder.date < dayKey(now));
+
+// - active breaks whose time ran out are finished at the moment they ended
+// - paused breaks past the auto-abandon limit are abandoned at that limit
+// - pending breaks whose reminder has come due again since are recorded as missed, as are
+//   dated one-offs once their day is over
+// - breaks for reminders that no longer exist are dropped
+export const recoverBreaks = (state: BreakState, now: number, autoAbandonMinutes: number | null = null): BreakState & { changed: boolean } => {
+  const byId = new Map(state.reminders.map(r => [r.id, r]));
+  const events: BreakEvent[] = [];
+  const lastTriggered = new Map<string, number>();
+
+  const active = state.active.filter(b => {
+    if (!byId.has(b.id)) return false;
+    const abandonedAt = abandonsAt(b, autoAbandonMinutes);
+    if (abandonedAt !== null && abandonedAt <= now) {
+      events.push(breakEndEvent('abandoned', b, abandonedAt));
+      lastTriggered.set(b.id, abandonedAt);
+      return false;
+    }
+    const endedAt = breakEndsAt(b);
+    if (endedAt === null || endedAt > now) return true;
+    events.push(breakEndEvent('finished', b, endedAt));
+    lastTriggered.set(b.id, endedAt);
+    return false;
+  });
+
+  const pending = state.pending.filter(p => {
+    const reminder = byId.get(p.id);
+    if (!reminder) return false;
+    if (!missedWhileClosed(reminder, now)) return true;
+    events.push(createBreakEvent('missed', reminder, { at: now, plannedSeconds: reminder.durationSeconds }));
+    // Recurring schedules restart from now rather than firing straight away
+    if (reminder.type === 'recurring') lastTriggered.set(reminder.id, now);
+    return false;
+  });
+
+  const reminders = lastTriggered.size === 0 ? state.reminders : state.reminders.map(r => {
+    const at = lastTriggered.get(r.id);
+    return at !== undefined && at > r.lastTriggered ? { ...r, lastTriggered: at } : r;
+  });
+
+  const changed = events.length > 0 || active.length !== state.active.length || pending.length !== state.pending.length;
+  return {
+    reminders,
+    history: events.length === 0 ? state.history : appendEvents(state.history, events).sort((a, b) => a.at - b.at),
+    pending,
+    active,
+    changed,
+  };
+};
+
+// Settles persisted breaks in storage. The results are saved as local edits, so sync
+// sends them, and announced, so hooks already showing the old values reload.
+export const restoreBreaks = (adapter: StorageAdapter, now: number) => {
+  try {
+    const state: BreakState = {
+      reminders: adapter.load('reminders', [], arrayOf(isReminder)),
+      history: adapter.load(HISTORY_KEY, [], arrayOf(isBreakEvent)),
+      pending: adapter.load(PENDING_BREAKS_KEY, [], arrayOf(isReminder)),
+      active: adapter.load(ACTIVE_BREAKS_KEY, [], arrayOf(isActiveBreak)),
+    };
+    const settings = withDefaults(adapter.load(SETTINGS_KEY, {}, guard(isSettings)));
+    const recovered = recoverBreaks(state, now, settings.autoAbandonMinutes);
+    if (!recovered.changed) return;
+
+    const write = <T>(key: string, prev: T, next: T) => {
+      if (next !== prev) adapter.replace(key, adapter.save(key, prev, next));
+    };
+    write('reminders', state.reminders, recovered.reminders);
+    write(HISTORY_KEY, state.history, recovered.history);
+    write(PENDING_BREAKS_KEY, state.pending, recovered.pending);
+    write(ACTIVE_BREAKS_KEY, state.active, recovered.active);
+  } catch (error) {
+    console.error('Failed to restore breaks', error);
+  }
+};
@@ -0,0 +1,41 @@
+import type { RoutineStep } from './types';
+
+// --- ROUTINES ---
+// A routine splits one break into ordered steps. The break itself stays a single
+// countdown; which step is running is derived from the time elapsed, so every view
+// agrees on the current step without keeping any per-step state.
+
+export const routineDuration = (steps: RoutineStep[]) => steps.reduce((sum, step) => sum + step.seconds, 0);
+
+export type RoutineProgress = {
+  index: number;
+  step: RoutineStep;
+  next: RoutineStep | null;
+  stepRemaining: number; // seconds
+  stepProgress: number; // 0..1
+};
+
+export const routineProgress = (steps: RoutineStep[], elapsedSeconds: number): RoutineProgress | null => {
+  if (steps.length === 0) return null;
+  let start = 0;
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index];
+    const end = start + step.seconds;
+    // The last step also covers any time past the end
+    if (elapsedSeconds < end || index === steps.length - 1) {
+      const into = Math.min(Math.max(0, elapsedSeconds - start), step.seconds);
+      return {
+        index,
+        step,
+        next: steps[index + 1] ?? null,
+        stepRemaining: step.seconds - into,
+        stepProgress: step.seconds > 0 ? into / step.seconds : 1,
+      };
+    }
+    start = end;
+  }
+  return null;
+};
+
+// "Neck rolls → Shoulder stretch → Deep breaths"
+export const describeRoutine = (steps: RoutineStep[]) => steps.map(step => step.name).join(' → ');
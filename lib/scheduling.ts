@@ -0,0 +1,194 @@
+import type { Reminder } from './types';
+
+// --- SCHEDULING ---
+// The one place that decides when a reminder fires. Everything here is pure and takes
+// `now` explicitly; callers pass the time from their Clock (see lib/clock).
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Display order, Monday first
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough to always reach the next allowed weekday
+const LOOKAHEAD_DAYS = 8;
+
+const atTime = (day: Date, hhmm: string) => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  const d = new Date(day);
+  d.setHours(hours, minutes, 0, 0);
+  return d.getTime();
+};
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+const addDays = (day: Date, days: number) => {
+  const d = new Date(day);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+const fromDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const isActiveDay = (reminder: Reminder, day: Date) =>
+  !reminder.days || reminder.days.length === 0 || reminder.days.includes(day.getDay());
+
+const hasRecurringRules = (reminder: Reminder) =>
+  (reminder.days?.length ?? 0) > 0 || !!reminder.windowStart || !!reminder.windowEnd;
+
+// Active window for a calendar day, or null when the reminder doesn't run that day
+const windowOn = (reminder: Reminder, day: Date) => {
+  if (!isActiveDay(reminder, day)) return null;
+  const start = atTime(day, reminder.windowStart || '00:00');
+  const end = reminder.windowEnd ? atTime(day, reminder.windowEnd) : addDays(day, 1).getTime();
+  return end > start ? { start, end } : null;
+};
+
+// Next due timestamp for a recurring reminder. The first break of each window comes one
+// interval after the window opens; a due time past the window's end rolls to the next window.
+const nextRecurringDue = (reminder: Reminder, now: number) => {
+  if (reminder.lastTriggered === 0) return null;
+  const interval = (reminder.intervalSeconds || 0) * 1000;
+  if (!hasRecurringRules(reminder)) return reminder.lastTriggered + interval;
+
+  const today = startOfDay(now);
+  for (let i = 0; i < LOOKAHEAD_DAYS; i++) {
+    const active = windowOn(reminder, addDays(today, i));
+    if (!active || now >= active.end) continue;
+    const due = Math.max(reminder.lastTriggered, active.start) + interval;
+    if (due <= active.end) return due;
+  }
+  return null;
+};
+
+// Next due timestamp for a time-of-day reminder; null once a dated one-off has fired.
+const nextOnceDue = (reminder: Reminder, now: number) => {
+  if (!reminder.triggerTime) return null;
+
+  if (reminder.date) {
+    const target = atTime(fromDateKey(reminder.date), reminder.triggerTime);
+    return reminder.lastTriggered >= target ? null : target;
+  }
+
+  const today = startOfDay(now);
+  const lastTriggeredDay = reminder.lastTriggered !== 0 ? startOfDay(reminder.lastTriggered).getTime() : null;
+  for (let i = 0; i < LOOKAHEAD_DAYS; i++) {
+    const day = addDays(today, i);
+    if (!isActiveDay(reminder, day) || lastTriggeredDay === day.getTime()) continue;
+    return atTime(day, reminder.triggerTime);
+  }
+  return null;
+};
+
+// When the reminder next fires (possibly already in the past, meaning it is overdue), or
+// null when it won't fire again. A snooze overrides the regular schedule until it fires.
+export const nextOccurrence = (reminder: Reminder, now: number): number | null => {
+  if (reminder.snoozedUntil) return reminder.snoozedUntil;
+  return reminder.type === 'recurring' ? nextRecurringDue(reminder, now) : nextOnceDue(reminder, now);
+};
+
+export const isDue = (reminder: Reminder, now: number) => {
+  const dueAt = nextOccurrence(reminder, now);
+  return dueAt !== null && dueAt <= now;
+};
+
+export type ScheduleState = {
+  reminders: Reminder[];
+  isSessionActive: boolean;
+  // Reminders that already have a pending or running break
+  busyIds: ReadonlySet<string>;
+};
+
+export type ReminderStatus =
+  | { kind: 'inactive' }
+  | { kind: 'in-progress' }
+  | { kind: 'paused' } // recurring, waiting for the session to start
+  | { kind: 'done' } // won't fire again
+  | { kind: 'scheduled'; at: number }
+  | { kind: 'due'; at: number };
+
+export const reminderStatus = (reminder: Reminder, state: Omit<ScheduleState, 'reminders'>, now: number): ReminderStatus => {
+  if (!reminder.active) return { kind: 'inactive' };
+  if (state.busyIds.has(reminder.id)) return { kind: 'in-progress' };
+  if (reminder.type === 'recurring' && !state.isSessionActive) return { kind: 'paused' };
+
+  const at = nextOccurrence(reminder, now);
+  if (at === null) return reminder.type === 'recurring' ? { kind: 'paused' } : { kind: 'done' };
+  return at <= now ? { kind: 'due', at } : { kind: 'scheduled', at };
+};
+
+export const dueReminders = (state: ScheduleState, now: number) =>
+  state.reminders.filter(r => reminderStatus(r, state, now).kind === 'due');
+
+// A reminder after it fired: the next countdown starts now and any snooze is used up
+export const markTriggered = (reminder: Reminder, now: number): Reminder => {
+  const { snoozedUntil: _snoozedUntil, ...rest } = reminder;
+  return { ...rest, lastTriggered: now };
+};
+
+export const snoozeReminder = (reminder: Reminder, minutes: number, now: number): Reminder => ({
+  ...reminder,
+  snoozedUntil: now + minutes * 60 * 1000,
+});
+
+// "14:35" today, "Tue 09:45" within a week, a date beyond that
+export const formatNextAt = (at: number, now: number) => {
+  const time = new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const days = Math.round((startOfDay(at).getTime() - startOfDay(now).getTime()) / DAY_MS);
+  if (days === 0) return time;
+  if (days === 1) return `tomorrow ${time}`;
+  if (days < 7) return `${WEEKDAY_LABELS[new Date(at).getDay()]} ${time}`;
+  return `${new Date(at).toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`;
+};
+
+export const formatDays = (days?: number[]) => {
+  if (!days || days.length === 0 || days.length === 7) return 'every day';
+  const sorted = WEEKDAY_ORDER.filter(d => days.includes(d));
+  if (sorted.join() === '1,2,3,4,5') return 'Mon–Fri';
+  if (sorted.join() === '6,0') return 'weekends';
+  return sorted.map(d => WEEKDAY_LABELS[d]).join(', ');
+};
+
+// "10 s", "5 min", "1 min 30 s"
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest === 0 ? `${minutes} min` : `${minutes} min ${rest} s`;
+};
+
+export const describeSchedule = (reminder: Pick<Reminder, 'type' | 'durationSeconds' | 'intervalSeconds' | 'triggerTime' | 'days' | 'windowStart' | 'windowEnd' | 'date' | 'steps'>) => {
+  const length = formatDuration(reminder.durationSeconds);
+  const what = reminder.steps?.length ? `${reminder.steps.length}-step ${length} routine` : `${length} break`;
+  if (reminder.type === 'recurring') {
+    let text = `${what} every ${formatDuration(reminder.intervalSeconds ?? 0)}`;
+    if (reminder.days?.length) text += `, ${formatDays(reminder.days)}`;
+    if (reminder.windowStart || reminder.windowEnd) {
+      text += `, ${reminder.windowStart || '00:00'}–${reminder.windowEnd || '24:00'}`;
+    }
+    return text;
+  }
+  let text = `${what} at ${reminder.triggerTime}`;
+  if (reminder.date) text += ` on ${fromDateKey(reminder.date).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}`;
+  else if (reminder.days?.length) text += `, ${formatDays(reminder.days)}`;
+  return text;
+};
+
+export const formatCountdown = (diff: number) => {
+  const days = Math.floor(diff / DAY_MS);
+  const hours = Math.floor((diff % DAY_MS) / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+  const seconds = Math.floor((diff % (1000 * 60)) / 1000);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
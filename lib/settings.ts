@@ -0,0 +1,36 @@
+import type { Settings } from './types';
+import { DEFAULT_MIN_COMPLETION } from './history';
+import { DEFAULT_STREAK_RULES } from './streaks';
+
+// --- SETTINGS ---
+// User preferences live under one key. Options added later are missing from older
+// stored settings, so reads always go through withDefaults. Per-cue sound options are
+// merged one level deeper, so a cue added later also gets its default.
+
+export const SETTINGS_KEY = 'settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  autoAbandonMinutes: null,
+  minCompletionPercent: DEFAULT_MIN_COMPLETION * 100,
+  ...DEFAULT_STREAK_RULES,
+  sounds: {
+    due: { volume: 70, muted: false },
+    start: { volume: 50, muted: false },
+    step: { volume: 50, muted: false },
+    end: { volume: 70, muted: false },
+  },
+  ambientSound: null,
+  ambientVolume: 40,
+  quietHours: null,
+  heldReminders: 'catch-up',
+  workSchedule: null,
+  idleMinutes: null,
+  quoteTheme: 'calm',
+  quoteLanguage: null,
+};
+
+export const withDefaults = (stored: Partial<Settings>): Settings => ({
+  ...DEFAULT_SETTINGS,
+  ...stored,
+  sounds: { ...DEFAULT_SETTINGS.sounds, ...stored.sounds },
+});
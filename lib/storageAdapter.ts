@@ -0,0 +1,43 @@
+import { loadValue } from './persistence';
+import type { Schema } from './persistence';
+import { trackLocalChange } from './syncClient';
+import { profileKey, profileStorage } from './profiles';
+
+// --- STORAGE ADAPTER ---
+// useLocalStorage reads and writes through this, so the app stays local-first: every
+// write lands in localStorage right away. While sync is on, saving reminders, stats or
+// history also stamps and queues what changed for the next sync (lib/syncClient.ts).
+// An adapter opened for a profile reads and writes that profile's copy of each key.
+
+export type StorageAdapter = {
+  load: <T>(key: string, initialValue: T, schema?: Schema<T>) => T;
+  // A local edit; returns the value as stored
+  save: <T>(key: string, prev: T, next: T) => T;
+  // A write that isn't an edit (merged sync results, sync bookkeeping). Hooks on this
+  // page reload it as if another tab had written it.
+  replace: (key: string, value: unknown) => void;
+  // The localStorage key a key is stored under, to match storage events against
+  keyFor: (key: string) => string;
+};
+
+export const createStorageAdapter = (base: Storage, profileId: string | null = null): StorageAdapter => {
+  const storage = profileId === null ? base : profileStorage(base, profileId);
+  const adapter: StorageAdapter = {
+    load: (key, initialValue, schema) => loadValue(key, initialValue, schema, storage),
+    save: (key, prev, next) => {
+      // Runs inside state updates, so nothing here may notify the page
+      const { value, updates } = trackLocalChange(adapter.load, key, prev, next, Date.now());
+      storage.setItem(key, JSON.stringify(value));
+      for (const [updateKey, update] of Object.entries(updates)) storage.setItem(updateKey, JSON.stringify(update));
+      return value;
+    },
+    replace: (key, value) => {
+      storage.setItem(key, JSON.stringify(value));
+      if (typeof window !== 'undefined' && base === window.localStorage) {
+        window.dispatchEvent(new StorageEvent('storage', { key: adapter.keyFor(key), storageArea: base }));
+      }
+    },
+    keyFor: key => (profileId === null ? key : profileKey(profileId, key)),
+  };
+  return adapter;
+};
@@ -0,0 +1,131 @@
+import type { BreakEvent, Stats } from './types';
+import { DEFAULT_MIN_COMPLETION, EMPTY_STATS, dayKey, isCompletion } from './history';
+
+// --- STREAKS ---
+// One engine for the overall streak and every habit's own streak. Days are local
+// calendar days that may start a few hours after midnight, so a 1am session still
+// counts for the evening before. Walking forward from the first day:
+// - a done day extends the streak, and every FREEZE_EVERY_DAYS of them earn a freeze
+// - rest days (weekends when exempt, unscheduled days) neither extend nor break it
+// - a missed day uses up a freeze if one is left, otherwise the streak starts over
+// - today is still pending and never breaks it
+
+export type StreakRules = {
+  dayStartHour: number; // 0-23; hours before it belong to the previous day
+  skipWeekends: boolean;
+};
+
+export const DEFAULT_STREAK_RULES: StreakRules = { dayStartHour: 0, skipWeekends: false };
+
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+export type DayOutcome = 'done' | 'missed' | 'frozen' | 'rest' | 'pending';
+export type StreakResult = {
+  streak: number;
+  freezes: number; // earned and not yet used
+  outcomes: Map<string, DayOutcome>;
+};
+
+// Streak day (YYYY-MM-DD) a timestamp belongs to
+export const streakDayKey = (timestamp: number, dayStartHour = 0) => {
+  const d = new Date(timestamp);
+  if (d.getHours() < dayStartHour) d.setDate(d.getDate() - 1);
+  return dayKey(d.getTime());
+};
+
+export const keyToDate = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const shiftDay = (key: string, days: number) => {
+  const date = keyToDate(key);
+  date.setDate(date.getDate() + days);
+  return dayKey(date.getTime());
+};
+
+export const isWeekendDay = (key: string) => {
+  const day = keyToDate(key).getDay();
+  return day === 0 || day === 6;
+};
+
+export const walkStreak = ({ from, today, isDone, isRestDay }: {
+  from: string;
+  today: string;
+  isDone: (key: string) => boolean;
+  isRestDay: (key: string) => boolean;
+}): StreakResult => {
+  const outcomes = new Map<string, DayOutcome>();
+  let streak = 0;
+  let freezes = 0;
+  let towardFreeze = 0;
+
+  for (let key = from; key <= today; key = shiftDay(key, 1)) {
+    if (isDone(key)) {
+      streak += 1;
+      towardFreeze += 1;
+      if (towardFreeze === FREEZE_EVERY_DAYS) {
+        towardFreeze = 0;
+        freezes = Math.min(MAX_FREEZES, freezes + 1);
+      }
+      outcomes.set(key, 'done');
+    } else if (isRestDay(key)) {
+      outcomes.set(key, 'rest');
+    } else if (key === today) {
+      outcomes.set(key, 'pending');
+    } else if (streak > 0 && freezes > 0) {
+      freezes -= 1;
+      outcomes.set(key, 'frozen');
+    } else {
+      streak = 0;
+      towardFreeze = 0;
+      outcomes.set(key, 'missed');
+    }
+  }
+
+  return { streak, freezes, outcomes };
+};
+
+export type CurrentStats = Stats & { freezes: number };
+
+// `baseline` holds the counters stored before the event log existed; they are
+// folded in so upgrading users keep their totals and current streak.
+export const computeStats = (
+  events: BreakEvent[], baseline: Stats = EMPTY_STATS, now = Date.now(),
+  minCompletion = DEFAULT_MIN_COMPLETION, rules = DEFAULT_STREAK_RULES,
+): CurrentStats => {
+  const completionDays = new Set<string>();
+  let completed = baseline.completed;
+
+  if (baseline.lastCompletionDate) {
+    for (let i = 0; i < baseline.streak; i++) {
+      completionDays.add(shiftDay(baseline.lastCompletionDate, -i));
+    }
+  }
+  for (const event of events) {
+    if (!isCompletion(event, minCompletion)) continue;
+    completed += 1;
+    completionDays.add(streakDayKey(event.at, rules.dayStartHour));
+  }
+
+  const days = [...completionDays].sort();
+  const lastCompletionDate = days[days.length - 1] ?? null;
+  if (days.length === 0) return { completed, streak: 0, freezes: 0, lastCompletionDate };
+
+  const { streak, freezes } = walkStreak({
+    from: days[0],
+    today: streakDayKey(now, rules.dayStartHour),
+    isDone: key => completionDays.has(key),
+    isRestDay: key => rules.skipWeekends && isWeekendDay(key),
+  });
+  return { completed, streak, freezes, lastCompletionDate };
+};
+
+// Builds before the event log stored the last completion as a UTC date. East of UTC
+// that is at most a day early, which still reads as a current streak; west of UTC an
+// evening session could land on a date that is still in the future locally, so clamp it.
+export const legacyStatsToLocal = (stats: Stats, now = Date.now()): Stats => {
+  const today = dayKey(now);
+  return stats.lastCompletionDate && stats.lastCompletionDate > today ? { ...stats, lastCompletionDate: today } : stats;
+};
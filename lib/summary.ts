@@ -0,0 +1,133 @@
+import type { BreakEvent, DaySummary, ReminderDay } from './types';
+import { DEFAULT_MIN_COMPLETION, isCompletion } from './history';
+import { totalFocusMinutes } from './analytics';
+import { shiftDay, streakDayKey } from './streaks';
+import type { CurrentStats } from './streaks';
+
+// --- DAY SUMMARY ---
+// Written when the user ends the day. The history log could rebuild it, but a saved
+// summary keeps what the day looked like with the settings in effect at the time.
+
+export const DAY_SUMMARIES_KEY = 'daySummaries';
+export const AVERAGE_DAYS = 7;
+
+const BREAK_END_TYPES = new Set<BreakEvent['type']>(['finished', 'ended_early', 'abandoned']);
+
+// From the day's first event to `now`, with the time spent on breaks cut out
+const longestStretch = (events: BreakEvent[], now: number) => {
+  if (events.length === 0) return 0;
+  const breaks = events
+    .filter(e => BREAK_END_TYPES.has(e.type))
+    .map(e => ({ start: e.startedAt ?? e.at, end: e.at }))
+    .sort((a, b) => a.start - b.start);
+  let from = Math.min(...events.map(e => e.at), ...breaks.map(b => b.start));
+  let longest = 0;
+  for (const b of breaks) {
+    longest = Math.max(longest, b.start - from);
+    from = Math.max(from, b.end);
+  }
+  longest = Math.max(longest, now - from);
+  return Math.round(longest / 60000);
+};
+
+export const summarizeDay = (
+  events: BreakEvent[], now: number, stats: CurrentStats,
+  minCompletion = DEFAULT_MIN_COMPLETION, dayStartHour = 0,
+): DaySummary => {
+  const date = streakDayKey(now, dayStartHour);
+  const byDay = new Map<string, BreakEvent[]>();
+  for (const event of events) {
+    const key = streakDayKey(event.at, dayStartHour);
+    const list = byDay.get(key);
+    if (list) list.push(event);
+    else byDay.set(key, [event]);
+  }
+  const today = byDay.get(date) ?? [];
+
+  const rows = new Map<string, ReminderDay>();
+  for (const event of today) {
+    const completed = isCompletion(event, minCompletion);
+    if (!completed && event.type !== 'skipped' && event.type !== 'snoozed') continue;
+    const row = rows.get(event.reminderId) ?? { reminderId: event.reminderId, name: event.reminderName, completed: 0, skipped: 0, snoozed: 0 };
+    row.name = event.reminderName;
+    if (completed) row.completed += 1;
+    else if (event.type === 'skipped') row.skipped += 1;
+    else row.snoozed += 1;
+    rows.set(event.reminderId, row);
+  }
+  const reminders = [...rows.values()].sort((a, b) => b.completed - a.completed || a.name.localeCompare(b.name));
+  const sum = (field: 'completed' | 'skipped' | 'snoozed') => reminders.reduce((total, r) => total + r[field], 0);
+
+  let pastCompleted = 0;
+  let pastMinutes = 0;
+  for (let i = 1; i <= AVERAGE_DAYS; i++) {
+    const day = byDay.get(shiftDay(date, -i)) ?? [];
+    pastCompleted += day.filter(e => isCompletion(e, minCompletion)).length;
+    pastMinutes += totalFocusMinutes(day, minCompletion);
+  }
+
+  return {
+    date,
+    createdAt: now,
+    reminders,
+    completed: sum('completed'),
+    skipped: sum('skipped'),
+    snoozed: sum('snoozed'),
+    breakMinutes: totalFocusMinutes(today, minCompletion),
+    longestStretchMinutes: longestStretch(today, now),
+    streak: stats.streak,
+    streakExtended: stats.lastCompletionDate === date,
+    freezes: stats.freezes,
+    average: {
+      completed: Math.round((pastCompleted / AVERAGE_DAYS) * 10) / 10,
+      breakMinutes: Math.round(pastMinutes / AVERAGE_DAYS),
+    },
+  };
+};
+
+// Replaces any earlier summary of the same day; newest first
+export const saveSummary = (summaries: DaySummary[], summary: DaySummary) =>
+  [summary, ...summaries.filter(s => s.date !== summary.date)].sort((a, b) => b.date.localeCompare(a.date));
+
+const formatMinutes = (minutes: number) => (minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`);
+
+const compare = (value: number, average: number) => {
+  if (average === 0) return value > 0 ? 'up from nothing' : 'same as usual';
+  const change = Math.round(((value - average) / average) * 100);
+  return change === 0 ? 'same as usual' : `${change > 0 ? '+' : ''}${change}% vs 7-day average`;
+};
+
+export const summaryLines = (summary: DaySummary) => ({
+  completed: `${summary.completed} completed, ${summary.skipped} skipped, ${summary.snoozed} snoozed`,
+  minutes: `${formatMinutes(summary.breakMinutes)} on breaks`,
+  stretch: `Longest stretch without a break: ${formatMinutes(summary.longestStretchMinutes)}`,
+  streak: `${summary.streak}-day streak${summary.streakExtended ? ', extended today' : ', not extended today'}${summary.freezes > 0 ? ` (${summary.freezes} ${summary.freezes === 1 ? 'freeze' : 'freezes'} left)` : ''}`,
+  average: `Breaks: ${compare(summary.completed, summary.average.completed)} (${summary.average.completed}/day); minutes: ${compare(summary.breakMinutes, summary.average.breakMinutes)} (${summary.average.breakMinutes}/day)`,
+});
+
+export const summaryToText = (summary: DaySummary, format: 'text' | 'markdown') => {
+  const lines = summaryLines(summary);
+  const reminderLine = (r: ReminderDay) => `${r.name}: ${r.completed} completed, ${r.skipped} skipped, ${r.snoozed} snoozed`;
+  if (format === 'markdown') {
+    return [
+      `## Day summary – ${summary.date}`,
+      '',
+      `- ${lines.completed}`,
+      `- ${lines.minutes}`,
+      `- ${lines.stretch}`,
+      `- ${lines.streak}`,
+      `- ${lines.average}`,
+      ...(summary.reminders.length > 0 ? ['', '| Reminder | Completed | Skipped | Snoozed |', '| --- | --- | --- | --- |'] : []),
+      ...summary.reminders.map(r => `| ${r.name.replace(/\|/g, '\\|')} | ${r.completed} | ${r.skipped} | ${r.snoozed} |`),
+    ].join('\n');
+  }
+  return [
+    `Day summary – ${summary.date}`,
+    lines.completed,
+    lines.minutes,
+    lines.stretch,
+    lines.streak,
+    lines.average,
+    ...(summary.reminders.length > 0 ? ['', ...summary.reminders.map(reminderLine)] : []),
+  ].join('\n');
+};
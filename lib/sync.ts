@@ -0,0 +1,204 @@
+import type { Tombstone } from './types';
+import { isBreakEvent, isReminder, isStats } from './validation';
+
+// --- SYNC ---
+// Reminders, stats and history are exchanged between devices through /api/sync as
+// records: one per reminder, one per history entry and a single stats record. Every
+// record has an updatedAt and deletions travel as tombstones. Each record is settled
+// on its own by the same rule everywhere (pickWinner), so devices that edited offline
+// converge on the same data whatever order their changes reach the server in.
+
+export const SYNC_COLLECTIONS = ['reminders', 'stats', 'history'] as const;
+export type SyncCollection = typeof SYNC_COLLECTIONS[number];
+
+export type SyncRecord = {
+  collection: SyncCollection;
+  id: string;
+  updatedAt: number;
+  deleted?: true;
+  data?: unknown; // the reminder, history entry or stats; absent on tombstones
+};
+
+export type SyncRequest = {
+  space: string;
+  since: number; // server revision the device has seen
+  epoch?: string; // the space's epoch that revision belongs to
+  changes: SyncRecord[];
+};
+export type SyncResponse = {
+  epoch: string; // new whenever the server's copy of the space starts over
+  cursor: number; // send as `since` next time
+  changes: SyncRecord[];
+  more: boolean; // a page limit was hit; ask again from `cursor`
+  reset?: true; // the device's cursor is from another epoch; send everything and start from 0
+};
+
+export type SyncErrorCode = 'method_not_allowed' | 'invalid_request' | 'rate_limited' | 'unavailable';
+export type SyncError = { code: SyncErrorCode; message: string; retryAfterSeconds?: number };
+
+// The stats collection holds one record under this id
+export const STATS_RECORD_ID = 'stats';
+// Records per request and per response page
+export const MAX_SYNC_CHANGES = 1000;
+// Sync codes are random UUIDs; anyone holding one can read and write its data
+const SPACE_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export const isSyncSpace = (value: unknown): value is string => typeof value === 'string' && SPACE_PATTERN.test(value);
+
+export const recordKey = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Whether `data` is a valid record body with the record's id
+const isRecordData = (collection: SyncCollection, id: string, data: unknown) => {
+  switch (collection) {
+    case 'reminders': return isReminder(data) && data.id === id;
+    case 'history': return isBreakEvent(data) && data.id === id;
+    case 'stats': return isStats(data) && id === STATS_RECORD_ID;
+  }
+};
+
+export const isSyncRecord = (value: unknown): value is SyncRecord =>
+  isObject(value) &&
+  SYNC_COLLECTIONS.includes(value.collection as SyncCollection) &&
+  typeof value.id === 'string' &&
+  typeof value.updatedAt === 'number' && Number.isFinite(value.updatedAt) &&
+  (value.deleted === true
+    ? value.data === undefined
+    : value.deleted === undefined && isRecordData(value.collection as SyncCollection, value.id, value.data));
+
+export const parseSyncRequest = (body: unknown): { ok: true; request: SyncRequest } | { ok: false; error: string } => {
+  if (!isObject(body)) return { ok: false, error: 'Expected a JSON object.' };
+  if (!isSyncSpace(body.space)) return { ok: false, error: '`space` must be a sync code of 16 to 64 letters, digits or dashes.' };
+  const since = body.since ?? 0;
+  if (typeof since !== 'number' || !Number.isInteger(since) || since < 0) return { ok: false, error: '`since` must be a revision number.' };
+  const epoch = body.epoch;
+  if (epoch !== undefined && !isSyncSpace(epoch)) return { ok: false, error: '`epoch` must be one the server sent.' };
+  const changes = body.changes ?? [];
+  if (!Array.isArray(changes)) return { ok: false, error: '`changes` must be an array.' };
+  if (changes.length > MAX_SYNC_CHANGES) return { ok: false, error: `Send at most ${MAX_SYNC_CHANGES} changes at a time.` };
+  const invalid = changes.findIndex(change => !isSyncRecord(change));
+  if (invalid >= 0) return { ok: false, error: `Change ${invalid + 1} is not a valid record.` };
+  return { ok: true, request: { space: body.space, since, ...(epoch !== undefined && { epoch }), changes } };
+};
+
+export const isSyncResponse = (value: unknown): value is SyncResponse =>
+  isObject(value) &&
+  typeof value.epoch === 'string' &&
+  typeof value.cursor === 'number' &&
+  (value.reset === undefined || value.reset === true) &&
+  typeof value.more === 'boolean' &&
+  Array.isArray(value.changes) &&
+  value.changes.every(isSyncRecord);
+
+// The newer record wins. On equal timestamps a deletion wins, then the larger body,
+// so the outcome never depends on which side is asking.
+export const pickWinner = (a: SyncRecord, b: SyncRecord): SyncRecord => {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt ? a : b;
+  if (a.deleted !== b.deleted) return a.deleted ? a : b;
+  return JSON.stringify(a.data ?? null) >= JSON.stringify(b.data ?? null) ? a : b;
+};
+
+export const sameRecord = (a: SyncRecord, b: SyncRecord) =>
+  a.updatedAt === b.updatedAt && a.deleted === b.deleted && JSON.stringify(a.data ?? null) === JSON.stringify(b.data ?? null);
+
+// --- Local values as records ---
+
+type Body = Record<string, unknown>;
+
+// Reminders and stats are edited in place and get stamped; history entries never
+// change after they're written, so their time is their updatedAt
+const updatedAtOf = (collection: SyncCollection, data: Body) => {
+  if (collection === 'history') return data.at as number;
+  return (data.updatedAt as number | undefined) ?? (data.createdAt as number | undefined) ?? 0;
+};
+
+// The collection's stored value as bodies by id
+const bodiesOf = (collection: SyncCollection, value: unknown): Map<string, Body> => {
+  if (collection === 'stats') return new Map(isObject(value) ? [[STATS_RECORD_ID, value]] : []);
+  return new Map(Array.isArray(value) ? value.filter(isObject).map(item => [item.id as string, item]) : []);
+};
+
+const valueOf = (collection: SyncCollection, bodies: Map<string, Body>, fallback: unknown): unknown => {
+  if (collection === 'stats') return bodies.get(STATS_RECORD_ID) ?? fallback;
+  const items = [...bodies.values()];
+  return collection === 'history'
+    ? items.sort((a, b) => (a.at as number) - (b.at as number))
+    : items.sort((a, b) => (b.createdAt as number) - (a.createdAt as number));
+};
+
+const toRecord = (collection: SyncCollection, id: string, data: Body): SyncRecord =>
+  ({ collection, id, updatedAt: updatedAtOf(collection, data), data });
+
+export const tombstoneRecord = ({ collection, id, deletedAt }: Tombstone): SyncRecord =>
+  ({ collection, id, updatedAt: deletedAt, deleted: true });
+
+// Every record a device holds for a collection, tombstones included, by record key
+export const localRecords = (collection: SyncCollection, value: unknown, tombstones: Tombstone[]) => {
+  const records = new Map<string, SyncRecord>();
+  for (const t of tombstones) if (t.collection === collection) records.set(recordKey(collection, t.id), tombstoneRecord(t));
+  for (const [id, body] of bodiesOf(collection, value)) records.set(recordKey(collection, id), toRecord(collection, id, body));
+  return records;
+};
+
+const withoutStamp = ({ updatedAt: _u, ...rest }: Body) => JSON.stringify(rest);
+
+// Compares a collection before and after a local edit. Records the edit changed
+// without setting updatedAt are stamped with `now`; the ids of changed and removed
+// records are returned so they can be sent.
+export const stampChanges = (collection: SyncCollection, prev: unknown, next: unknown, now: number) => {
+  const before = bodiesOf(collection, prev);
+  const after = bodiesOf(collection, next);
+  const changed: string[] = [];
+  const removed = [...before.keys()].filter(id => !after.has(id));
+  let stamped = false;
+
+  for (const [id, body] of after) {
+    const old = before.get(id);
+    if (old === body || (old && withoutStamp(old) === withoutStamp(body))) continue;
+    changed.push(id);
+    if (collection !== 'history' && body.updatedAt === old?.updatedAt) {
+      after.set(id, { ...body, updatedAt: now });
+      stamped = true;
+    }
+  }
+  const value = !stamped ? next
+    : collection === 'stats' ? after.get(STATS_RECORD_ID)
+    : (next as Body[]).map(item => after.get(item.id as string));
+  return { value, changed, removed };
+};
+
+// Merges records from the server into a collection and its tombstones. Returns null
+// when nothing local changed.
+export const mergeRecords = (
+  collection: SyncCollection,
+  value: unknown,
+  tombstones: Tombstone[],
+  records: SyncRecord[],
+  fallback: unknown,
+): { value: unknown; tombstones: Tombstone[] } | null => {
+  const bodies = bodiesOf(collection, value);
+  const dead = new Map(tombstones.filter(t => t.collection === collection).map(t => [t.id, t]));
+  let changed = false;
+
+  for (const record of records) {
+    if (record.collection !== collection) continue;
+    const body = bodies.get(record.id);
+    const local = body ? toRecord(collection, record.id, body) : dead.has(record.id) ? tombstoneRecord(dead.get(record.id)!) : null;
+    if (local && (sameRecord(local, record) || pickWinner(local, record) === local)) continue;
+    changed = true;
+    if (record.deleted) {
+      bodies.delete(record.id);
+      dead.set(record.id, { collection, id: record.id, deletedAt: record.updatedAt });
+    } else {
+      bodies.set(record.id, collection === 'history' ? record.data as Body : { ...(record.data as Body), updatedAt: record.updatedAt });
+      dead.delete(record.id);
+    }
+  }
+  if (!changed) return null;
+  return {
+    value: valueOf(collection, bodies, fallback),
+    tombstones: [...tombstones.filter(t => t.collection !== collection), ...dead.values()],
+  };
+};
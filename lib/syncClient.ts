@@ -0,0 +1,149 @@
+import type { SyncState, Tombstone } from './types';
+import { arrayOf, guard } from './persistence';
+import type { Schema } from './persistence';
+import { isBreakEvent, isReminder, isStats, isSyncState, isTombstone } from './validation';
+import { EMPTY_STATS, HISTORY_KEY } from './history';
+import { MAX_SYNC_CHANGES, SYNC_COLLECTIONS, localRecords, mergeRecords, recordKey, stampChanges } from './sync';
+import type { SyncCollection, SyncError, SyncRecord, SyncRequest, SyncResponse } from './sync';
+import type { StorageAdapter } from './storageAdapter';
+
+// --- SYNC CLIENT ---
+// The device side of /api/sync. While sync is on, local edits are stamped and their
+// record keys queued in SyncState.dirty (see StorageAdapter.save). A sync sends the
+// queued records and tombstones, merges whatever other devices sent since the last
+// one, and repeats until both sides are caught up. Offline, edits just stay queued.
+
+export const SYNC_STATE_KEY = 'syncState';
+export const SYNC_TOMBSTONES_KEY = 'syncTombstones';
+export const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Requests in one sync before the rest waits for the next
+const MAX_SYNC_ROUNDS = 10;
+
+export type SyncResult = { ok: true } | { ok: false; error: SyncError };
+export type SendSync = (request: SyncRequest) => Promise<{ ok: true; response: SyncResponse } | { ok: false; error: SyncError }>;
+
+type Load = StorageAdapter['load'];
+
+export const syncStateSchema = guard((value: unknown): value is SyncState | null => value === null || isSyncState(value));
+const tombstonesSchema = arrayOf(isTombstone);
+
+// Where each collection is stored locally
+const STORED: Record<SyncCollection, { key: string; initial: unknown; schema: Schema<unknown> }> = {
+  reminders: { key: 'reminders', initial: [], schema: arrayOf(isReminder) },
+  stats: { key: 'stats', initial: EMPTY_STATS, schema: guard(isStats) },
+  history: { key: HISTORY_KEY, initial: [], schema: arrayOf(isBreakEvent) },
+};
+
+const loadCollection = (load: Load, collection: SyncCollection, initial = STORED[collection].initial) =>
+  load(STORED[collection].key, initial, STORED[collection].schema);
+
+export const readSyncState = (load: Load) => load<SyncState | null>(SYNC_STATE_KEY, null, syncStateSchema);
+const readTombstones = (load: Load) => load<Tombstone[]>(SYNC_TOMBSTONES_KEY, [], tombstonesSchema);
+
+export const newSyncCode = () => crypto.randomUUID();
+
+// Stamps a local edit of a synced key and queues it. Returns the value to store and
+// the sync bookkeeping to write along with it.
+export const trackLocalChange = <T>(load: Load, key: string, prev: T, next: T, now: number) => {
+  const collection = SYNC_COLLECTIONS.find(c => STORED[c].key === key);
+  const state = collection && prev !== next ? readSyncState(load) : null;
+  if (!collection || !state) return { value: next, updates: {} };
+
+  const { value, changed, removed } = stampChanges(collection, prev, next, now);
+  if (changed.length === 0 && removed.length === 0) return { value: next, updates: {} };
+  const touched = new Set([...changed, ...removed]);
+  const dirty = { ...state.dirty };
+  for (const id of touched) dirty[recordKey(collection, id)] = now;
+  const tombstones: Tombstone[] = [
+    ...readTombstones(load).filter(t => t.collection !== collection || !touched.has(t.id)),
+    ...removed.map(id => ({ collection, id, deletedAt: now })),
+  ];
+  return { value: value as T, updates: { [SYNC_STATE_KEY]: { ...state, dirty }, [SYNC_TOMBSTONES_KEY]: tombstones } };
+};
+
+// Every record on this device, tombstones included, queued as changed at `now`
+const queueEverything = (load: Load, dirty: Record<string, number>, now: number) => {
+  const tombstones = readTombstones(load);
+  const queued = { ...dirty };
+  for (const collection of SYNC_COLLECTIONS) {
+    // Stats that were never saved would only compete with real ones
+    for (const key of localRecords(collection, loadCollection(load, collection, null), tombstones).keys()) queued[key] = now;
+  }
+  return queued;
+};
+
+// Turns sync on with a new or an existing sync code. Everything already on this device
+// is queued, so data from both devices ends up on each.
+export const startSync = (adapter: StorageAdapter, space: string, now = Date.now()) => {
+  adapter.replace(SYNC_TOMBSTONES_KEY, []);
+  const dirty = queueEverything(adapter.load, {}, now);
+  adapter.replace(SYNC_STATE_KEY, { space, cursor: 0, lastSyncedAt: null, dirty } satisfies SyncState);
+};
+
+// Local data stays as it is
+export const stopSync = (adapter: StorageAdapter) => {
+  adapter.replace(SYNC_STATE_KEY, null);
+  adapter.replace(SYNC_TOMBSTONES_KEY, []);
+};
+
+// Up to MAX_SYNC_CHANGES queued records, with the dirty times they were sent at
+const pendingChanges = (load: Load, state: SyncState) => {
+  const tombstones = readTombstones(load);
+  const records = new Map<string, SyncRecord>();
+  for (const collection of SYNC_COLLECTIONS) {
+    for (const [key, record] of localRecords(collection, loadCollection(load, collection), tombstones)) records.set(key, record);
+  }
+  const queued = Object.entries(state.dirty);
+  const sent = queued.slice(0, MAX_SYNC_CHANGES);
+  return {
+    // A key with no record left (e.g. data replaced since) is simply dropped from the queue
+    changes: sent.flatMap(([key]) => records.get(key) ?? []),
+    sent,
+    truncated: queued.length > sent.length,
+  };
+};
+
+const applyRemote = (adapter: StorageAdapter, changes: SyncRecord[]) => {
+  let tombstones = readTombstones(adapter.load);
+  let tombstonesChanged = false;
+  for (const collection of SYNC_COLLECTIONS) {
+    if (!changes.some(change => change.collection === collection)) continue;
+    const merged = mergeRecords(collection, loadCollection(adapter.load, collection), tombstones, changes, STORED[collection].initial);
+    if (!merged) continue;
+    adapter.replace(STORED[collection].key, merged.value);
+    tombstones = merged.tombstones;
+    tombstonesChanged = true;
+  }
+  if (tombstonesChanged) adapter.replace(SYNC_TOMBSTONES_KEY, tombstones);
+};
+
+// One full sync. Local state is read again after every response, so edits made while
+// a request is in flight are merged rather than overwritten, and queued for next time.
+export const syncNow = async (adapter: StorageAdapter, send: SendSync, now = Date.now): Promise<SyncResult> => {
+  for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+    const state = readSyncState(adapter.load);
+    if (!state) return { ok: true };
+    const { changes, sent, truncated } = pendingChanges(adapter.load, state);
+
+    const result = await send({ space: state.space, since: state.cursor, ...(state.epoch && { epoch: state.epoch }), changes });
+    if (!result.ok) return result;
+
+    // Sync may have been turned off or moved to another code meanwhile
+    const current = readSyncState(adapter.load);
+    if (!current || current.space !== state.space) return { ok: true };
+    applyRemote(adapter, result.response.changes);
+    const dirty = { ...current.dirty };
+    for (const [key, at] of sent) {
+      if (dirty[key] === at) delete dirty[key];
+    }
+    const { epoch, cursor, more, reset } = result.response;
+    if (reset) {
+      // The server lost the space: send it everything again and catch up from the start
+      adapter.replace(SYNC_STATE_KEY, { ...current, cursor: 0, epoch, dirty: queueEverything(adapter.load, dirty, now()) } satisfies SyncState);
+      continue;
+    }
+    adapter.replace(SYNC_STATE_KEY, { ...current, cursor, epoch, lastSyncedAt: now(), dirty } satisfies SyncState);
+    if (!more && !truncated) return { ok: true };
+  }
+  return { ok: true };
+};
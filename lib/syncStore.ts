@@ -0,0 +1,117 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pickWinner, recordKey, sameRecord } from './sync';
+import type { SyncRecord, SyncRequest, SyncResponse } from './sync';
+
+// --- SYNC STORE ---
+// Server side of /api/sync. A space is everything stored under one sync code: its
+// records and a revision counter bumped by every accepted change, which devices use
+// as a cursor to ask only for what changed since they last synced. Stores only load
+// and save whole spaces, so another backend (e.g. Firestore) is one more SyncStore.
+//
+// A space that's created again after its store lost it (e.g. a memory store after a
+// restart) gets a new epoch. Cursors from an older epoch say nothing about its
+// revisions, so those devices are told to start over.
+
+export type StoredRecord = SyncRecord & { revision: number };
+export type StoredSpace = {
+  epoch: string;
+  revision: number;
+  records: Record<string, StoredRecord>;
+};
+
+export type SyncStore = {
+  name: string;
+  load: (space: string) => Promise<StoredSpace | null>;
+  save: (space: string, data: StoredSpace) => Promise<void>;
+};
+
+export const emptySpace = (): StoredSpace => ({ epoch: randomUUID(), revision: 0, records: {} });
+
+// Lasts as long as the process; for tests and local development
+export const createMemoryStore = (): SyncStore => {
+  const spaces = new Map<string, string>();
+  return {
+    name: 'memory',
+    load: async space => {
+      const raw = spaces.get(space);
+      return raw === undefined ? null : JSON.parse(raw);
+    },
+    save: async (space, data) => {
+      spaces.set(space, JSON.stringify(data));
+    },
+  };
+};
+
+// One JSON file per space in `dir`. Sync codes only contain letters, digits and dashes,
+// so they're safe file names.
+export const createFileStore = (dir: string): SyncStore => {
+  const fileFor = (space: string) => path.join(dir, `${space}.json`);
+  return {
+    name: 'file',
+    load: async space => {
+      try {
+        return JSON.parse(await readFile(fileFor(space), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    save: async (space, data) => {
+      await mkdir(dir, { recursive: true });
+      // Written aside and renamed, so a crash never leaves half a file
+      const temp = `${fileFor(space)}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(data));
+      await rename(temp, fileFor(space));
+    },
+  };
+};
+
+// Applies a device's changes to a space. A change is kept when it beats the stored
+// record. Returns the keys of kept changes, which the device needn't get back, and of
+// beaten ones, whose stored winner it must get even if its cursor is past it.
+export const applyChanges = (space: StoredSpace, changes: SyncRecord[]) => {
+  const accepted = new Set<string>();
+  const beaten = new Set<string>();
+  for (const change of changes) {
+    const key = recordKey(change.collection, change.id);
+    const stored = space.records[key];
+    if (stored) {
+      const { revision: _r, ...current } = stored;
+      if (sameRecord(current, change)) continue;
+      if (pickWinner(current, change) === current) {
+        beaten.add(key);
+        continue;
+      }
+    }
+    space.revision += 1;
+    space.records[key] = { ...change, revision: space.revision };
+    accepted.add(key);
+  }
+  return { accepted, beaten };
+};
+
+// Records changed after revision `since`, oldest first, one page at a time, plus the
+// winners over the device's beaten changes. A cursor from another epoch gets a reset.
+export const changesSince = (
+  space: StoredSpace,
+  { since, epoch }: Pick<SyncRequest, 'since' | 'epoch'>,
+  { accepted, beaten }: ReturnType<typeof applyChanges>,
+  limit: number,
+): SyncResponse => {
+  if (since > 0 && epoch !== space.epoch) return { epoch: space.epoch, cursor: 0, changes: [], more: false, reset: true };
+  const newer = Object.entries(space.records)
+    .filter(([, record]) => record.revision > since)
+    .sort(([, a], [, b]) => a.revision - b.revision);
+  const page = newer.slice(0, limit);
+  const more = newer.length > limit;
+  const keys = new Set(page.map(([key]) => key));
+  const winners = [...beaten].filter(key => !keys.has(key)).map(key => [key, space.records[key]] as const);
+  return {
+    epoch: space.epoch,
+    cursor: more ? page[page.length - 1][1].revision : space.revision,
+    changes: [...page, ...winners].filter(([key]) => !accepted.has(key)).map(([, { revision: _r, ...record }]) => record),
+    more,
+  };
+};
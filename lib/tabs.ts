@@ -0,0 +1,81 @@
+// --- MULTI-TAB COORDINATION ---
+// Every open tab mirrors state through `storage` events (see useLocalStorage), but only
+// one tab, the leader, runs the scheduler. Leadership is a short lease in localStorage
+// renewed on a heartbeat; a closing leader hands over right away via BroadcastChannel.
+
+const LEASE_KEY = 'schedulerLease';
+const CHANNEL_NAME = 'habit-tracking-bud';
+const LEASE_MS = 5000;
+const HEARTBEAT_MS = 2000;
+
+type Lease = { tabId: string; expires: number };
+
+export const TAB_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const readLease = (): Lease | null => {
+  try {
+    const lease = JSON.parse(window.localStorage.getItem(LEASE_KEY) ?? 'null');
+    return lease && typeof lease.tabId === 'string' && typeof lease.expires === 'number' ? lease : null;
+  } catch {
+    return null;
+  }
+};
+
+// Calls `onChange` whenever this tab gains or loses leadership. Returns a stop function.
+export const startLeaderElection = (onChange: (isLeader: boolean) => void) => {
+  let isLeader = false;
+  const channel = 'BroadcastChannel' in window ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  const setLeader = (next: boolean) => {
+    if (next === isLeader) return;
+    isLeader = next;
+    onChange(next);
+  };
+
+  const heartbeat = () => {
+    const now = Date.now();
+    const lease = readLease();
+    if (lease && lease.tabId !== TAB_ID && lease.expires > now) {
+      setLeader(false);
+      return;
+    }
+    try {
+      window.localStorage.setItem(LEASE_KEY, JSON.stringify({ tabId: TAB_ID, expires: now + LEASE_MS }));
+    } catch (error) {
+      console.error('Failed to write scheduler lease', error);
+    }
+    // Another tab may have claimed it in the same instant; the stored lease decides
+    setLeader(readLease()?.tabId === TAB_ID);
+  };
+
+  const resign = () => {
+    if (!isLeader) return;
+    if (readLease()?.tabId === TAB_ID) window.localStorage.removeItem(LEASE_KEY);
+    channel?.postMessage({ type: 'leader-resigned', tabId: TAB_ID });
+    setLeader(false);
+  };
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === LEASE_KEY && event.newValue === null) heartbeat();
+  };
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent) => {
+      if (event.data?.type === 'leader-resigned') heartbeat();
+    };
+  }
+  window.addEventListener('storage', handleStorage);
+  window.addEventListener('pagehide', resign);
+  heartbeat();
+  const intervalId = setInterval(heartbeat, HEARTBEAT_MS);
+
+  return () => {
+    clearInterval(intervalId);
+    resign();
+    window.removeEventListener('storage', handleStorage);
+    window.removeEventListener('pagehide', resign);
+    channel?.close();
+  };
+};
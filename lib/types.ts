@@ -0,0 +1,148 @@
+// --- SHARED TYPES ---
+export type Reminder = {
+  id: string;
+  name: string;
+  durationSeconds: number; // break length
+  active: boolean;
+  createdAt: number;
+  lastTriggered: number;
+  type: 'recurring' | 'once';
+  intervalSeconds?: number; // time between breaks, for recurring
+  triggerTime?: string; // HH:mm, for once
+  days?: number[]; // weekdays it runs on (0 = Sunday); every day when empty
+  windowStart?: string; // HH:mm, recurring only: first moment of the active window
+  windowEnd?: string; // HH:mm, recurring only: end of the active window
+  date?: string; // YYYY-MM-DD, turns a 'once' reminder into a true one-off
+  snoozedUntil?: number; // timestamp ms; overrides the schedule until it fires
+  steps?: RoutineStep[]; // guided routine; durationSeconds is their total
+  dailyGoal?: number; // completed breaks per day that count as meeting the habit
+  updatedAt?: number; // timestamp ms of the last change, for sync; createdAt until then
+};
+export type RoutineStep = {
+  name: string;
+  seconds: number;
+};
+export type Stats = {
+  completed: number;
+  streak: number;
+  lastCompletionDate: string | null;
+  updatedAt?: number; // timestamp ms of the last change, for sync
+};
+export type ActiveBreak = {
+  id: string;
+  name: string;
+  startedAt: number; // timestamp ms when break started
+  durationSeconds: number; // total duration in seconds
+  steps?: RoutineStep[]; // copied from the reminder when the break starts
+  pausedAt?: number; // timestamp ms the current pause began; set only while paused
+  pausedMs?: number; // total length of earlier pauses
+};
+export type SoundCue = 'due' | 'start' | 'step' | 'end';
+export type AmbientSound = 'brown' | 'pink' | 'rain';
+export type CueSound = {
+  volume: number; // 0-100
+  muted: boolean;
+};
+export type QuietHours = {
+  start: string; // HH:MM
+  end: string; // HH:MM; earlier than start when the window wraps past midnight
+};
+export type WorkSchedule = {
+  days: number[]; // 0=Sun..6=Sat
+  start: string; // HH:MM
+  end: string; // HH:MM, after start
+};
+// Saved when the user ends the day (see lib/summary.ts)
+export type ReminderDay = {
+  reminderId: string;
+  name: string;
+  completed: number;
+  skipped: number;
+  snoozed: number;
+};
+export type DaySummary = {
+  date: string; // YYYY-MM-DD, following the streak day-start hour
+  createdAt: number;
+  reminders: ReminderDay[];
+  completed: number;
+  skipped: number;
+  snoozed: number;
+  breakMinutes: number;
+  longestStretchMinutes: number; // longest time between breaks
+  streak: number;
+  streakExtended: boolean; // today counted toward the streak
+  freezes: number;
+  average: { completed: number; breakMinutes: number }; // per day over the 7 days before
+};
+export type HeldReminders = 'catch-up' | 'drop';
+export type QuoteTheme = 'calm' | 'discipline' | 'health' | 'focus';
+// What /api/fetch-quote returns
+export type Quote = {
+  quote: string;
+  attribution?: string; // only for quotes by a known author
+  category: QuoteTheme;
+};
+// A quote the app has shown; kept so users can browse and favorite past ones
+export type SavedQuote = Quote & {
+  id: string;
+  fetchedAt: number;
+  day: string; // YYYY-MM-DD, local day it was fetched for
+  language: string;
+  favorite: boolean;
+};
+// Reminders that came due during Do Not Disturb or quiet hours, waiting for a catch-up prompt
+export type HeldBreak = {
+  reminderId: string;
+  reminderName: string;
+  count: number; // times it came due while held
+  lastAt: number;
+};
+// Someone using the app on this device (see lib/profiles.ts)
+export type Profile = {
+  id: string;
+  name: string;
+  createdAt: number;
+};
+// Cross-device sync, set while it's on (see lib/syncClient.ts)
+export type SyncState = {
+  space: string; // sync code shared by the devices
+  cursor: number; // server revision this device has caught up to
+  epoch?: string; // the server's epoch that revision belongs to (see lib/syncStore)
+  lastSyncedAt: number | null;
+  dirty: Record<string, number>; // 'collection:id' of local changes not yet sent -> when they changed
+};
+// A deleted reminder, history entry or stats record, kept so the deletion syncs
+export type Tombstone = {
+  collection: 'reminders' | 'stats' | 'history';
+  id: string;
+  deletedAt: number;
+};
+export type Settings = {
+  autoAbandonMinutes: number | null; // end a break left paused this long; null = never
+  minCompletionPercent: number; // share of a break ended early that still counts as completed
+  dayStartHour: number; // streak days start at this hour instead of midnight
+  skipWeekends: boolean; // weekends neither extend nor break streaks unless a break is done
+  sounds: Record<SoundCue, CueSound>;
+  ambientSound: AmbientSound | null; // looped in the focus overlay
+  ambientVolume: number; // 0-100
+  quietHours: QuietHours | null; // no sounds and no reminders inside this daily window
+  heldReminders: HeldReminders; // what happens to reminders due during Do Not Disturb or quiet hours
+  workSchedule: WorkSchedule | null; // starts and ends the session automatically
+  idleMinutes: number | null; // pause recurring countdowns after this long away; null = never
+  quoteTheme: QuoteTheme;
+  quoteLanguage: string | null; // BCP 47 code for quotes; null = the browser's language
+};
+
+export type BreakEventType =
+  | 'triggered' | 'started' | 'paused' | 'resumed' | 'finished' | 'ended_early' | 'abandoned' | 'skipped' | 'snoozed' | 'missed';
+export type BreakEvent = {
+  id: string;
+  type: BreakEventType;
+  reminderId: string;
+  reminderName: string;
+  at: number; // timestamp ms when the event happened
+  startedAt?: number; // for started / finished / ended_early
+  plannedSeconds?: number; // break length the reminder asked for
+  actualSeconds?: number; // time actually spent, for finished / ended_early
+  snoozeMinutes?: number; // for snoozed
+};
@@ -0,0 +1,172 @@
+import type { ActiveBreak, AmbientSound, BreakEvent, BreakEventType, DaySummary, HeldBreak, Profile, Quote, QuoteTheme, Reminder, SavedQuote, Settings, Stats, SyncState, Tombstone } from './types';
+import { QUOTE_THEMES } from './quotes';
+import type { QuoteError, QuoteErrorCode } from './quotes';
+import type { SyncError } from './sync';
+
+// --- SHAPE CHECKS ---
+// Runtime guards for data that comes from outside the app's own state (files, storage).
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isTime = (v: unknown) => isString(v) && /^\d{2}:\d{2}$/.test(v);
+const isDateKey = (v: unknown) => isString(v) && /^\d{4}-\d{2}-\d{2}$/.test(v);
+const isWeekdays = (v: unknown) => Array.isArray(v) && v.every(d => Number.isInteger(d) && d >= 0 && d <= 6);
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isSteps = (v: unknown) => Array.isArray(v) && v.every(s => isObject(s) && isString(s.name) && isNumber(s.seconds));
+
+const EVENT_TYPES: BreakEventType[] = [
+  'triggered', 'started', 'paused', 'resumed', 'finished', 'ended_early', 'abandoned', 'skipped', 'snoozed', 'missed',
+];
+
+export const isReminder = (value: unknown): value is Reminder =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isNumber(value.durationSeconds) &&
+  typeof value.active === 'boolean' &&
+  isNumber(value.createdAt) &&
+  isNumber(value.lastTriggered) &&
+  (value.type === 'recurring' || value.type === 'once') &&
+  isOptional(value.intervalSeconds, isNumber) &&
+  isOptional(value.triggerTime, isTime) &&
+  isOptional(value.days, isWeekdays) &&
+  isOptional(value.windowStart, isTime) &&
+  isOptional(value.windowEnd, isTime) &&
+  isOptional(value.date, isDateKey) &&
+  isOptional(value.snoozedUntil, isNumber) &&
+  isOptional(value.steps, isSteps) &&
+  isOptional(value.dailyGoal, isNumber) &&
+  isOptional(value.updatedAt, isNumber);
+
+export const isBreakEvent = (value: unknown): value is BreakEvent =>
+  isObject(value) &&
+  isString(value.id) &&
+  EVENT_TYPES.includes(value.type as BreakEventType) &&
+  isString(value.reminderId) &&
+  isString(value.reminderName) &&
+  isNumber(value.at) &&
+  isOptional(value.startedAt, isNumber) &&
+  isOptional(value.plannedSeconds, isNumber) &&
+  isOptional(value.actualSeconds, isNumber) &&
+  isOptional(value.snoozeMinutes, isNumber);
+
+export const isActiveBreak = (value: unknown): value is ActiveBreak =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isNumber(value.startedAt) &&
+  isNumber(value.durationSeconds) &&
+  isOptional(value.steps, isSteps) &&
+  isOptional(value.pausedAt, isNumber) &&
+  isOptional(value.pausedMs, isNumber);
+
+export const isHeldBreak = (value: unknown): value is HeldBreak =>
+  isObject(value) &&
+  isString(value.reminderId) &&
+  isString(value.reminderName) &&
+  isNumber(value.count) &&
+  isNumber(value.lastAt);
+
+const isReminderDay = (v: unknown) =>
+  isObject(v) && isString(v.reminderId) && isString(v.name) && isNumber(v.completed) && isNumber(v.skipped) && isNumber(v.snoozed);
+
+export const isDaySummary = (value: unknown): value is DaySummary =>
+  isObject(value) &&
+  isDateKey(value.date) &&
+  isNumber(value.createdAt) &&
+  Array.isArray(value.reminders) && value.reminders.every(isReminderDay) &&
+  isNumber(value.completed) &&
+  isNumber(value.skipped) &&
+  isNumber(value.snoozed) &&
+  isNumber(value.breakMinutes) &&
+  isNumber(value.longestStretchMinutes) &&
+  isNumber(value.streak) &&
+  typeof value.streakExtended === 'boolean' &&
+  isNumber(value.freezes) &&
+  isObject(value.average) && isNumber(value.average.completed) && isNumber(value.average.breakMinutes);
+
+export const isQuote = (value: unknown): value is Quote =>
+  isObject(value) &&
+  isString(value.quote) && value.quote.length > 0 &&
+  isOptional(value.attribution, isString) &&
+  QUOTE_THEMES.includes(value.category as QuoteTheme);
+
+const QUOTE_ERROR_CODES: QuoteErrorCode[] = ['method_not_allowed', 'invalid_request', 'rate_limited', 'unavailable'];
+
+export const isQuoteError = (value: unknown): value is QuoteError =>
+  isObject(value) &&
+  QUOTE_ERROR_CODES.includes(value.code as QuoteErrorCode) &&
+  isString(value.message) &&
+  isOptional(value.retryAfterSeconds, isNumber);
+
+// /api/sync answers errors in the same shape and with the same codes
+export const isSyncError = (value: unknown): value is SyncError => isQuoteError(value);
+
+export const isSavedQuote = (value: unknown): value is SavedQuote =>
+  isObject(value) &&
+  isString(value.id) &&
+  isNumber(value.fetchedAt) &&
+  isDateKey(value.day) &&
+  isString(value.language) &&
+  isBoolean(value.favorite) &&
+  isQuote(value);
+
+export const isStats = (value: unknown): value is Stats =>
+  isObject(value) &&
+  isNumber(value.completed) &&
+  isNumber(value.streak) &&
+  (value.lastCompletionDate === null || isString(value.lastCompletionDate)) &&
+  isOptional(value.updatedAt, isNumber);
+
+export const isProfile = (value: unknown): value is Profile =>
+  isObject(value) &&
+  isString(value.id) && /^[a-z0-9-]+$/.test(value.id) &&
+  isString(value.name) &&
+  isNumber(value.createdAt);
+
+export const isSyncState = (value: unknown): value is SyncState =>
+  isObject(value) &&
+  isString(value.space) &&
+  isNumber(value.cursor) &&
+  (value.epoch === undefined || isString(value.epoch)) &&
+  (value.lastSyncedAt === null || isNumber(value.lastSyncedAt)) &&
+  isObject(value.dirty) &&
+  Object.values(value.dirty).every(isNumber);
+
+export const isTombstone = (value: unknown): value is Tombstone =>
+  isObject(value) &&
+  (value.collection === 'reminders' || value.collection === 'stats' || value.collection === 'history') &&
+  isString(value.id) &&
+  isNumber(value.deletedAt);
+
+const AMBIENT_SOUNDS: AmbientSound[] = ['brown', 'pink', 'rain'];
+const isCueSound = (v: unknown) => isObject(v) && isNumber(v.volume) && isBoolean(v.muted);
+// Cues are optional too, for the same reason
+const isSounds = (v: unknown) => isObject(v) && Object.values(v).every(isCueSound);
+
+// Every option is optional: settings saved by older versions lack newer ones
+export const isSettings = (value: unknown): value is Partial<Settings> =>
+  isObject(value) &&
+  isOptional(value.autoAbandonMinutes, v => v === null || isNumber(v)) &&
+  isOptional(value.minCompletionPercent, isNumber) &&
+  isOptional(value.dayStartHour, isNumber) &&
+  isOptional(value.skipWeekends, isBoolean) &&
+  isOptional(value.sounds, isSounds) &&
+  isOptional(value.ambientSound, v => v === null || AMBIENT_SOUNDS.includes(v as AmbientSound)) &&
+  isOptional(value.ambientVolume, isNumber) &&
+  isOptional(value.quietHours, v => v === null || (isObject(v) && isTime(v.start) && isTime(v.end))) &&
+  isOptional(value.heldReminders, v => v === 'catch-up' || v === 'drop') &&
+  isOptional(value.workSchedule, v => v === null || (isObject(v) && isWeekdays(v.days) && isTime(v.start) && isTime(v.end))) &&
+  isOptional(value.idleMinutes, v => v === null || isNumber(v)) &&
+  isOptional(value.quoteTheme, v => QUOTE_THEMES.includes(v as QuoteTheme)) &&
+  isOptional(value.quoteLanguage, v => v === null || isString(v));
+
+export const isTheme = (value: unknown): value is 'light' | 'dark' => value === 'light' || value === 'dark';
+
+// Index of the first invalid entry, or -1 when every item passes
+export const findInvalid = (items: unknown[], check: (v: unknown) => boolean) => items.findIndex(item => !check(item));
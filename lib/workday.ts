@@ -0,0 +1,62 @@
+import type { Reminder, WorkSchedule } from './types';
+
+// --- WORKDAY & AWAY DETECTION ---
+// A work schedule starts and ends the session at its boundaries. Only crossing a
+// boundary changes the session, so pressing Start Day / End Day in between still
+// sticks until the next one.
+//
+// A page can't see input in other apps, so "away" is judged from what it can see:
+// nobody has touched or returned to the page for a while, whether it's on screen or
+// hidden, or the device slept (a timer firing long after it was due).
+
+export const WORK_SESSION_MARK_KEY = 'workSessionMark';
+
+// Background tabs may only run timers once a minute; shorter gaps aren't sleep
+export const MIN_SLEEP_GAP_MS = 3 * 60 * 1000;
+
+export const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+const atTime = (day: Date, hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  const d = new Date(day);
+  d.setHours(h, m, 0, 0);
+  return d.getTime();
+};
+
+// The latest start or end of a workday at or before `now`, or null without one in the past week
+export const lastWorkBoundary = (schedule: WorkSchedule | null, now: number): { at: number; active: boolean } | null => {
+  if (!schedule || schedule.days.length === 0 || schedule.end <= schedule.start) return null;
+  for (let i = 0; i <= 7; i++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - i);
+    if (!schedule.days.includes(day.getDay())) continue;
+    const end = atTime(day, schedule.end);
+    if (end <= now) return { at: end, active: false };
+    const start = atTime(day, schedule.start);
+    if (start <= now) return { at: start, active: true };
+  }
+  return null;
+};
+
+// Calls `onActivity` on any input on this page and when it comes back on screen;
+// returns a cleanup function
+export const watchActivity = (onActivity: () => void) => {
+  const onVisibility = () => {
+    if (document.visibilityState === 'visible') onActivity();
+  };
+  ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, onActivity, { passive: true }));
+  document.addEventListener('visibilitychange', onVisibility);
+  return () => {
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, onActivity));
+    document.removeEventListener('visibilitychange', onVisibility);
+  };
+};
+
+export const isAway = (lastActivityAt: number, now: number, idleMs: number) => now - lastActivityAt >= idleMs;
+
+export const sleptBetween = (lastTickAt: number, now: number, idleMs: number) =>
+  now - lastTickAt >= Math.max(idleMs, MIN_SLEEP_GAP_MS);
+
+// Recurring countdowns start over from `now` once the user is back
+export const restartRecurring = (reminders: Reminder[], now: number) =>
+  reminders.map(r => (r.type === 'recurring' && r.active ? { ...r, lastTriggered: now } : r));
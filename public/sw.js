@@ -0,0 +1,116 @@
+// Service worker for Habit-Tracking-Bud.
+// Caches the app shell so the app starts offline. A new build installs alongside the
+// running one and waits until the app asks it to take over (the update prompt).
+// Keeps the last quote per theme for when /api/fetch-quote can't be reached.
+// Turns notification clicks and action buttons into messages for the open app,
+// opening a window first when none is around.
+
+// Replaced in the build with its version and hashed assets (see vite.config.ts).
+// The dev server serves this file as is, and nothing is cached then.
+const BUILD = { version: 'dev', assets: [] };
+
+const CACHING = BUILD.version !== 'dev';
+const SHELL_CACHE = `shell-${BUILD.version}`;
+const QUOTE_CACHE = 'quotes';
+const SHELL_URLS = [
+  '/index.html', ...BUILD.assets, '/manifest.webmanifest', '/icons/icon.svg', '/icons/icon-192.png', '/icons/icon-512.png',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    if (CACHING) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll(SHELL_URLS);
+    }
+    // The first install takes over right away; later builds wait for the go-ahead
+    if (!CACHING || !self.registration.active) await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith('shell-') && key !== SHELL_CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'skip-waiting') self.skipWaiting();
+});
+
+// POST responses can't be cached, so the last good answer is stored under a GET key
+const quoteKey = (theme) => `/api/fetch-quote?theme=${encodeURIComponent(theme)}`;
+
+const fetchQuote = async (request) => {
+  let theme = 'calm';
+  try {
+    const body = await request.clone().json();
+    if (body && typeof body.theme === 'string') theme = body.theme;
+  } catch {
+    // no body: the endpoint's default theme
+  }
+  const cache = await caches.open(QUOTE_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(quoteKey(theme), response.clone());
+    return response;
+  } catch {
+    const cached = (await cache.match(quoteKey(theme))) || (await cache.match('/api/fetch-quote', { ignoreSearch: true }));
+    const headers = { 'Content-Type': 'application/json', 'X-Quote-Source': 'offline' };
+    if (cached) return new Response(await cached.text(), { status: 200, headers });
+    const error = { code: 'unavailable', message: "You're offline and no quote has been saved yet." };
+    return new Response(JSON.stringify({ error }), { status: 503, headers });
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Cross-origin requests (web fonts) go straight to the network; offline the
+  // fallback fonts are used
+  if (!CACHING || url.origin !== self.location.origin) return;
+
+  if (url.pathname === '/api/fetch-quote' && request.method === 'POST') {
+    event.respondWith(fetchQuote(request));
+    return;
+  }
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+  // Cache first: the shell and its assets come from the same build until an update is applied
+  event.respondWith((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = request.mode === 'navigate'
+      ? await cache.match('/index.html')
+      : await cache.match(request, { ignoreSearch: true });
+    return cached || fetch(request);
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const data = notification.data || {};
+  // '' when the body (not an action button) was clicked
+  const action = event.action || 'focus';
+  notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+
+    if (client) {
+      client.postMessage({ type: 'notification-action', action, reminderId: data.reminderId });
+      if ('focus' in client && action !== 'skip') await client.focus();
+      return;
+    }
+
+    // No window open: let the app pick the action up from the URL on load
+    const params = new URLSearchParams();
+    if (data.reminderId) {
+      params.set('notificationAction', action);
+      params.set('reminder', data.reminderId);
+    }
+    const query = params.toString();
+    await self.clients.openWindow(query ? `/?${query}` : '/');
+  })());
+});
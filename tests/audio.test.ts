@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cueVolume } from '../lib/audio';
+import { DEFAULT_SETTINGS } from '../lib/settings';
+
+const noon = new Date(2025, 5, 10, 12).getTime();
+const MINUTE = 60 * 1000;
+
+describe('cueVolume', () => {
+  it('plays at the configured volume', () => {
+    assert.equal(cueVolume('end', DEFAULT_SETTINGS, null, noon), DEFAULT_SETTINGS.sounds.end.volume / 100);
+  });
+
+  it('is silent while Do Not Disturb is on, and not after', () => {
+    const dndUntil = noon + 30 * MINUTE;
+    assert.equal(cueVolume('end', DEFAULT_SETTINGS, dndUntil, noon), 0);
+    assert.equal(cueVolume('start', DEFAULT_SETTINGS, dndUntil, noon), 0);
+    assert.ok(cueVolume('end', DEFAULT_SETTINGS, dndUntil, dndUntil) > 0);
+  });
+
+  it('is silent during quiet hours', () => {
+    const settings = { ...DEFAULT_SETTINGS, quietHours: { start: '11:00', end: '13:00' } };
+    assert.equal(cueVolume('due', settings, null, noon), 0);
+  });
+
+  it('is silent when the cue is muted', () => {
+    const settings = { ...DEFAULT_SETTINGS, sounds: { ...DEFAULT_SETTINGS.sounds, step: { ...DEFAULT_SETTINGS.sounds.step, muted: true } } };
+    assert.equal(cueVolume('step', settings, null, noon), 0);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toICalendar } from '../lib/backup';
+import type { Reminder } from '../lib/types';
+
+// Wednesday 2025-06-11
+const created = new Date(2025, 5, 11, 10).getTime();
+
+const reminder = (overrides: Partial<Reminder>): Reminder => ({
+  id: 'r1', name: 'Stretch', durationSeconds: 120, active: true, createdAt: created, lastTriggered: 0,
+  type: 'recurring', intervalSeconds: 45 * 60, ...overrides,
+});
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+const lineOf = (ics: string, name: string) => unfold(ics).split('\r\n').find(line => line.startsWith(name));
+
+describe('toICalendar', () => {
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const name = 'Stretch the shoulders, neck and wrists — then refill the water bottle 💧 '.repeat(3).trim();
+    const ics = toICalendar([reminder({ name })]);
+    for (const line of ics.split('\r\n')) assert.ok(Buffer.byteLength(line) <= 75, line);
+    assert.ok(!ics.includes('�'));
+    assert.equal(lineOf(ics, 'SUMMARY:'), `SUMMARY:${name.replace(/,/g, '\\,')}: every 45 min`);
+  });
+
+  it('starts on the first day the reminder runs', () => {
+    // Mondays and Fridays only: the Friday after it was created
+    const recurring = toICalendar([reminder({ days: [1, 5], windowStart: '09:00', windowEnd: '17:00' })]);
+    assert.equal(lineOf(recurring, 'DTSTART'), 'DTSTART:20250613T090000');
+    assert.equal(lineOf(recurring, 'RRULE'), 'RRULE:FREQ=WEEKLY;BYDAY=MO,FR');
+
+    const allDay = toICalendar([reminder({ days: [1] })]);
+    assert.equal(lineOf(allDay, 'DTSTART'), 'DTSTART;VALUE=DATE:20250616');
+    assert.equal(lineOf(allDay, 'DTEND'), 'DTEND;VALUE=DATE:20250617');
+
+    const timeOfDay = toICalendar([reminder({ type: 'once', triggerTime: '08:30', days: [0, 6] })]);
+    assert.equal(lineOf(timeOfDay, 'DTSTART'), 'DTSTART:20250614T083000');
+  });
+
+  it('keeps the creation day when the reminder runs on it', () => {
+    const ics = toICalendar([reminder({ days: [3], windowStart: '09:00' })]);
+    assert.equal(lineOf(ics, 'DTSTART'), 'DTSTART:20250611T090000');
+  });
+});
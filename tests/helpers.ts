@@ -0,0 +1,47 @@
+// Fixtures shared by the test files
+
+export type FakeRequest = { method?: string; body?: unknown; ip?: string };
+
+// The parts of a Vercel response the handlers use, recording what they were given
+export const fakeResponse = () => ({
+  statusCode: 0,
+  body: undefined as unknown,
+  headers: {} as Record<string, string>,
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  },
+  json(value: unknown) {
+    this.body = value;
+    return this;
+  },
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  },
+});
+
+// Calls an API handler as Vercel would, from a fixed client IP unless given one
+export const call = async <H extends (req: never, res: never) => unknown>(
+  handler: H,
+  { method = 'POST', body, ip = '203.0.113.7' }: FakeRequest = {},
+) => {
+  const res = fakeResponse();
+  const req = { method, body, headers: { 'x-forwarded-for': ip } };
+  await handler(req as unknown as Parameters<H>[0], res as unknown as Parameters<H>[1]);
+  return res;
+};
+
+// A Storage in memory. Values are stored as JSON, as the app writes them.
+export const memoryStorage = (items: Record<string, unknown> = {}): Storage & { items: Map<string, string> } => {
+  const map = new Map(Object.entries(items).map(([key, value]) => [key, JSON.stringify(value)]));
+  return {
+    items: map,
+    get length() { return map.size; },
+    key: index => [...map.keys()][index] ?? null,
+    getItem: key => map.get(key) ?? null,
+    setItem: (key, value) => { map.set(key, String(value)); },
+    removeItem: key => { map.delete(key); },
+    clear: () => map.clear(),
+  };
+};
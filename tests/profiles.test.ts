@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY, runMigrations } from '../lib/persistence';
+import {
+  ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID, PROFILES_KEY, createProfile, deleteProfileData, profileKey, profileStorage, renameProfile,
+} from '../lib/profiles';
+import { createStorageAdapter } from '../lib/storageAdapter';
+import { memoryStorage } from './helpers';
+
+const reminder = { id: 'r1', name: 'Water', durationSeconds: 60, active: true, createdAt: 1, lastTriggered: 0, type: 'recurring', intervalSeconds: 1800 };
+
+describe('migrating to profiles', () => {
+  it('moves single-user data into a default profile named after the user', () => {
+    const storage = memoryStorage({
+      [SCHEMA_VERSION_KEY]: 5,
+      userName: 'Sam',
+      reminders: [reminder],
+      theme: 'light',
+      notificationPromptDismissed: true,
+    });
+    runMigrations(storage);
+
+    assert.equal(storage.getItem(SCHEMA_VERSION_KEY), String(CURRENT_SCHEMA_VERSION));
+    const [profile] = JSON.parse(storage.getItem(PROFILES_KEY)!);
+    assert.deepEqual({ id: profile.id, name: profile.name }, { id: DEFAULT_PROFILE_ID, name: 'Sam' });
+    assert.equal(JSON.parse(storage.getItem(ACTIVE_PROFILE_KEY)!), DEFAULT_PROFILE_ID);
+    assert.deepEqual(JSON.parse(storage.getItem(profileKey(DEFAULT_PROFILE_ID, 'reminders'))!), [reminder]);
+    assert.equal(JSON.parse(storage.getItem(profileKey(DEFAULT_PROFILE_ID, 'theme'))!), 'light');
+    assert.equal(storage.getItem('reminders'), null);
+    assert.equal(storage.getItem('userName'), null);
+    // Shared by the device
+    assert.equal(storage.getItem('notificationPromptDismissed'), 'true');
+  });
+
+  it('leaves a fresh install without profiles', () => {
+    const storage = memoryStorage();
+    runMigrations(storage);
+    assert.equal(storage.getItem(PROFILES_KEY), null);
+  });
+});
+
+describe('profile storage', () => {
+  it('keeps each profile to its own keys', () => {
+    const storage = memoryStorage();
+    const work = createStorageAdapter(storage, 'work');
+    const home = createStorageAdapter(storage, 'home');
+    work.save('reminders', [], [reminder]);
+    assert.deepEqual(work.load('reminders', []), [reminder]);
+    assert.deepEqual(home.load('reminders', []), []);
+    assert.equal(work.keyFor('reminders'), 'profile.work.reminders');
+    assert.equal(work.keyFor('notificationPromptDismissed'), 'notificationPromptDismissed');
+  });
+
+  it('deletes only the deleted profile’s data', () => {
+    const storage = memoryStorage({ [SCHEMA_VERSION_KEY]: 6 });
+    profileStorage(storage, 'work').setItem('history', '[]');
+    profileStorage(storage, 'home').setItem('history', '[]');
+    deleteProfileData(storage, 'work');
+    assert.deepEqual([...storage.items.keys()].sort(), ['profile.home.history', 'schemaVersion']);
+  });
+
+  it('gives new profiles unique ids and tidy names', () => {
+    const first = createProfile('  Work  ', [], 1000);
+    const second = createProfile('Home', [first], 1000);
+    assert.notEqual(second.id, first.id);
+    assert.equal(first.name, 'Work');
+    assert.equal(renameProfile([first, second], second.id, ' Family   laptop ')[1].name, 'Family laptop');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuickAdd } from '../lib/quickAdd';
+
+// Wednesday 2025-06-11, 10:00
+const now = new Date(2025, 5, 11, 10).getTime();
+
+const draftOf = (input: string, at = now) => {
+  const result = parseQuickAdd(input, at);
+  assert.ok(result.ok, result.ok ? '' : result.error);
+  return result.draft;
+};
+
+const errorOf = (input: string, at = now) => {
+  const result = parseQuickAdd(input, at);
+  assert.ok(!result.ok, `parsed “${input}”`);
+  return result.error;
+};
+
+describe('parseQuickAdd', () => {
+  it('reads the examples', () => {
+    assert.deepEqual(draftOf('water sip every 45 minutes for 10 seconds'), {
+      name: 'Water sip', type: 'recurring', durationSeconds: 10, intervalSeconds: 45 * 60,
+    });
+    assert.deepEqual(draftOf('stretch at 3pm for 5 min'), {
+      name: 'Stretch', type: 'once', durationSeconds: 300, triggerTime: '15:00',
+    });
+    assert.deepEqual(draftOf('eye break every 20m weekdays'), {
+      name: 'Eye break', type: 'recurring', durationSeconds: 120, intervalSeconds: 20 * 60, days: [1, 2, 3, 4, 5],
+    });
+    const windowed = draftOf('eye break every 20m weekdays from 9 to 5');
+    assert.deepEqual([windowed.windowStart, windowed.windowEnd], ['09:00', '17:00']);
+  });
+
+  it('takes a bare hour as the next one coming up', () => {
+    assert.equal(draftOf('stretch at 3').triggerTime, '15:00');
+    assert.equal(draftOf('stretch at 3', new Date(2025, 5, 11, 16).getTime()).triggerTime, '03:00');
+    assert.equal(draftOf('stretch at 12').triggerTime, '12:00');
+    const result = parseQuickAdd('stretch at 3', now);
+    assert.ok(result.ok && result.notes.some(note => note.includes('15:00')));
+  });
+
+  it('keeps hours that can only mean one time', () => {
+    assert.equal(draftOf('stretch at 3am').triggerTime, '03:00');
+    assert.equal(draftOf('stretch at 03:00').triggerTime, '03:00');
+    assert.equal(draftOf('stretch at 15:30').triggerTime, '15:30');
+    assert.equal(draftOf('stretch at noon').triggerTime, '12:00');
+  });
+
+  it('asks which half of the day a bare hour on a later date means', () => {
+    assert.match(errorOf('dentist tomorrow at 3'), /3am.*3pm/);
+    assert.deepEqual(
+      [draftOf('dentist today at 3').triggerTime, draftOf('dentist today at 3').date],
+      ['15:00', '2025-06-11'],
+    );
+  });
+
+  it('rejects dates that do not exist', () => {
+    assert.match(errorOf('dentist at 3pm on 2025-02-30'), /isn’t a valid date/);
+    assert.match(errorOf('dentist at 3pm on 2025-13-01'), /isn’t a valid date/);
+    assert.match(errorOf('dentist at 3pm on 2025-06-31'), /isn’t a valid date/);
+    assert.equal(draftOf('dentist at 3pm on 2028-02-29').date, '2028-02-29');
+  });
+
+  it('rejects dates and times that are over', () => {
+    assert.match(errorOf('dentist at 9am today'), /already in the past/);
+    assert.match(errorOf('dentist at 3pm on 2025-06-10'), /already in the past/);
+  });
+
+  it('explains what it could not understand', () => {
+    assert.match(errorOf(''), /Describe a reminder/);
+    assert.match(errorOf('stretch every blue moon'), /how often/);
+    assert.match(errorOf('stretch at 25'), /isn’t a valid time/);
+    assert.match(errorOf('stretch every 5 minutes for 10 minutes'), /shorter than the time between/);
+    assert.match(errorOf('stretch every 5 minutes at 3pm'), /not both/);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { quoteOfTheDay } from '../lib/quoteProviders';
+import { QUOTE_CORPUS } from '../lib/quoteCorpus';
+import { QUOTE_THEMES } from '../lib/quotes';
+
+describe('quoteOfTheDay', () => {
+  it('picks the same quote for the same day and theme', () => {
+    assert.deepEqual(quoteOfTheDay('calm', '2025-03-01'), quoteOfTheDay('calm', '2025-03-01'));
+  });
+
+  it('moves on from day to day', () => {
+    const week = ['01', '02', '03', '04', '05', '06', '07'].map(d => quoteOfTheDay('focus', `2025-03-${d}`).quote);
+    assert.ok(new Set(week).size > 1);
+  });
+
+  it('stays within the requested theme', () => {
+    for (const theme of QUOTE_THEMES) {
+      const { quote, category } = quoteOfTheDay(theme, '2025-03-01');
+      assert.equal(category, theme);
+      assert.ok(QUOTE_CORPUS[theme].some(([text]) => text === quote));
+    }
+  });
+
+  it('skips quotes on the no-repeats list', () => {
+    const first = quoteOfTheDay('discipline', '2025-03-01');
+    const next = quoteOfTheDay('discipline', '2025-03-01', [first.quote]);
+    assert.notEqual(next.quote, first.quote);
+  });
+
+  it('repeats once every quote of the theme has been seen', () => {
+    const all = QUOTE_CORPUS.health.map(([text]) => text);
+    assert.deepEqual(quoteOfTheDay('health', '2025-03-01', all), quoteOfTheDay('health', '2025-03-01'));
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PENDING_BREAKS_KEY, recoverBreaks, restoreBreaks } from '../lib/recovery';
+import { createStorageAdapter } from '../lib/storageAdapter';
+import { readSyncState, startSync } from '../lib/syncClient';
+import type { BreakEvent, Reminder } from '../lib/types';
+import { memoryStorage } from './helpers';
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 5, day, hours, minutes).getTime();
+
+// A dated one-off that fired at 09:00 on 2025-06-10 and is waiting to be started
+const oneOff: Reminder = {
+  id: 'o1', name: 'Dentist', durationSeconds: 60, active: true, createdAt: 0, lastTriggered: at(10, 9),
+  type: 'once', triggerTime: '09:00', date: '2025-06-10',
+};
+
+const recover = (now: number) => recoverBreaks({ reminders: [oneOff], history: [], pending: [oneOff], active: [] }, now);
+
+describe('recoverBreaks', () => {
+  it('keeps a dated one-off waiting through its day', () => {
+    const recovered = recover(at(10, 22));
+    assert.deepEqual(recovered.pending, [oneOff]);
+    assert.equal(recovered.changed, false);
+  });
+
+  it('records a dated one-off as missed once its day is over', () => {
+    const recovered = recover(at(11, 8));
+    assert.deepEqual(recovered.pending, []);
+    assert.deepEqual(recovered.history.map(e => [e.type, e.reminderId, e.at]), [['missed', 'o1', at(11, 8)]]);
+    assert.deepEqual(recovered.reminders, [oneOff]);
+  });
+});
+
+describe('restoreBreaks', () => {
+  it('saves what it settled through the storage adapter', () => {
+    const storage = memoryStorage({ reminders: [oneOff], pendingBreaks: [oneOff], history: [] });
+    const adapter = createStorageAdapter(storage);
+    restoreBreaks(adapter, at(11, 8));
+    assert.deepEqual(adapter.load(PENDING_BREAKS_KEY, null), []);
+    assert.deepEqual(adapter.load<BreakEvent[]>('history', []).map(e => e.type), ['missed']);
+  });
+
+  it('queues the settled history for sync', () => {
+    const storage = memoryStorage({ reminders: [oneOff], pendingBreaks: [oneOff], history: [] });
+    const adapter = createStorageAdapter(storage);
+    startSync(adapter, '5f0c2a4e-8d1b-4c6f-9a3e-2b7d1e0f4c58');
+    restoreBreaks(adapter, at(11, 8));
+    const [missed] = adapter.load<BreakEvent[]>('history', []);
+    assert.ok(readSyncState(adapter.load)!.dirty[`history:${missed.id}`]);
+  });
+});
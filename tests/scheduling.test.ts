@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManualClock } from '../lib/clock';
+import { dueReminders, markTriggered, nextOccurrence, snoozeReminder } from '../lib/scheduling';
+import type { Reminder } from '../lib/types';
+
+// Schedules follow local time; pin a zone with daylight saving time (spring forward on
+// 2025-03-30, fall back on 2025-10-26)
+process.env.TZ = 'Europe/Berlin';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const at = (month: number, day: number, hours: number, minutes = 0) => new Date(2025, month - 1, day, hours, minutes).getTime();
+
+const recurring = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: 'r1', name: 'Stretch', durationSeconds: 60, active: true, createdAt: 0, lastTriggered: 0,
+  type: 'recurring', intervalSeconds: 30 * 60, ...overrides,
+});
+
+const daily = (triggerTime: string, overrides: Partial<Reminder> = {}): Reminder => ({
+  id: 'd1', name: 'Water', durationSeconds: 60, active: true, createdAt: 0, lastTriggered: 0,
+  type: 'once', triggerTime, ...overrides,
+});
+
+const due = (reminders: Reminder[], now: number) =>
+  dueReminders({ reminders, isSessionActive: true, busyIds: new Set() }, now).map(r => r.id);
+
+describe('scheduling across daylight saving time', () => {
+  it('keeps a daily reminder at the same wall-clock time on the short day', () => {
+    const clock = createManualClock(at(3, 29, 9, 30));
+    const reminder = daily('09:00', { lastTriggered: at(3, 29, 9) });
+    // Only 23 hours later
+    assert.equal(nextOccurrence(reminder, clock()), at(3, 30, 9));
+    assert.equal(at(3, 30, 9) - at(3, 29, 9), 23 * HOUR);
+
+    clock.set(at(3, 30, 8, 59));
+    assert.deepEqual(due([reminder], clock()), []);
+    clock.advance(MINUTE);
+    assert.deepEqual(due([reminder], clock()), ['d1']);
+  });
+
+  it('keeps a daily reminder at the same wall-clock time on the long day', () => {
+    const clock = createManualClock(at(10, 25, 21));
+    const reminder = daily('20:00', { lastTriggered: at(10, 25, 20) });
+    assert.equal(nextOccurrence(reminder, clock()), at(10, 26, 20));
+    assert.equal(at(10, 26, 20) - at(10, 25, 20), 25 * HOUR);
+
+    clock.set(at(10, 26, 19, 59));
+    assert.deepEqual(due([reminder], clock()), []);
+  });
+
+  it('counts a recurring interval in real time across the change', () => {
+    const clock = createManualClock(at(3, 30, 1, 45));
+    const reminder = recurring({ lastTriggered: clock() });
+    // 01:45 + 30 min lands at 03:15 once 02:00 jumps to 03:00
+    assert.equal(nextOccurrence(reminder, clock()), at(3, 30, 3, 15));
+    clock.advance(30 * MINUTE);
+    assert.deepEqual(due([reminder], clock()), ['r1']);
+  });
+});
+
+describe('scheduling across midnight', () => {
+  it('rolls a recurring reminder past its window over to the next day', () => {
+    const clock = createManualClock(at(6, 10, 16, 45));
+    const reminder = recurring({ intervalSeconds: 60 * 60, windowStart: '09:00', windowEnd: '17:00', lastTriggered: at(6, 10, 16, 30) });
+    assert.equal(nextOccurrence(reminder, clock()), at(6, 11, 10));
+
+    clock.set(at(6, 10, 23, 59));
+    assert.deepEqual(due([reminder], clock()), []);
+    clock.advance(2 * MINUTE);
+    assert.deepEqual(due([reminder], clock()), []);
+    assert.equal(nextOccurrence(reminder, clock()), at(6, 11, 10));
+    clock.set(at(6, 11, 10));
+    assert.deepEqual(due([reminder], clock()), ['r1']);
+  });
+
+  it('fires a late-evening daily reminder again the next evening', () => {
+    const clock = createManualClock(at(6, 10, 23, 45));
+    const reminder = daily('23:30', { lastTriggered: at(6, 10, 23, 30) });
+    clock.advance(30 * MINUTE);
+    assert.deepEqual(due([reminder], clock()), []);
+    assert.equal(nextOccurrence(reminder, clock()), at(6, 11, 23, 30));
+  });
+
+  it('skips the weekdays a reminder is off', () => {
+    // Friday 2025-06-13 after the last break; weekdays only
+    const clock = createManualClock(at(6, 13, 23, 50));
+    const reminder = daily('08:00', { days: [1, 2, 3, 4, 5], lastTriggered: at(6, 13, 8) });
+    clock.advance(20 * MINUTE);
+    assert.equal(nextOccurrence(reminder, clock()), at(6, 16, 8));
+  });
+});
+
+describe('scheduling after a long gap', () => {
+  it('fires an overdue recurring reminder once, then counts from then', () => {
+    const clock = createManualClock(at(6, 10, 9));
+    let reminder = recurring({ lastTriggered: clock() });
+    // The device sleeps through several intervals
+    clock.advance(5 * HOUR);
+    assert.deepEqual(due([reminder], clock()), ['r1']);
+
+    reminder = markTriggered(reminder, clock());
+    assert.deepEqual(due([reminder], clock()), []);
+    assert.equal(nextOccurrence(reminder, clock()), at(6, 10, 14, 30));
+  });
+
+  it('fires a snoozed reminder once after sleeping past the snooze', () => {
+    const clock = createManualClock(at(6, 10, 9));
+    let reminder = snoozeReminder(recurring({ lastTriggered: clock() }), 10, clock());
+    assert.equal(nextOccurrence(reminder, clock()), at(6, 10, 9, 10));
+
+    clock.advance(3 * HOUR);
+    assert.deepEqual(due([reminder], clock()), ['r1']);
+    reminder = markTriggered(reminder, clock());
+    assert.equal(reminder.snoozedUntil, undefined);
+    assert.equal(nextOccurrence(reminder, clock()), at(6, 10, 12, 30));
+  });
+
+  it('still fires a dated one-off whose time passed while asleep', () => {
+    const clock = createManualClock(at(6, 10, 8));
+    const reminder = daily('09:00', { date: '2025-06-10' });
+    clock.advance(4 * HOUR);
+    assert.deepEqual(due([reminder], clock()), ['d1']);
+    assert.equal(nextOccurrence(markTriggered(reminder, clock()), clock()), null);
+  });
+});
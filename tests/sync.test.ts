@@ -0,0 +1,287 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createSyncHandler } from '../api/sync';
+import { pickWinner } from '../lib/sync';
+import type { SyncError, SyncRecord, SyncResponse } from '../lib/sync';
+import { createFileStore } from '../lib/syncStore';
+import { createStorageAdapter } from '../lib/storageAdapter';
+import { SYNC_STATE_KEY, SYNC_TOMBSTONES_KEY, startSync, syncNow } from '../lib/syncClient';
+import type { SendSync } from '../lib/syncClient';
+import type { BreakEvent, Reminder, SyncState, Tombstone } from '../lib/types';
+import { call, memoryStorage } from './helpers';
+
+type Handler = ReturnType<typeof createSyncHandler>;
+
+const SPACE = '5f0c2a4e-8d1b-4c6f-9a3e-2b7d1e0f4c58';
+
+// Sends through the handler as the app would through fetch, JSON round trip included
+const through = (handler: Handler): SendSync => async request => {
+  const res = await call(handler, { body: JSON.parse(JSON.stringify(request)) });
+  return res.statusCode === 200
+    ? { ok: true, response: res.body as SyncResponse }
+    : { ok: false, error: (res.body as { error: SyncError }).error };
+};
+
+// One device: its own storage, edited the way useLocalStorage does
+const device = (handler: Handler) => {
+  const adapter = createStorageAdapter(memoryStorage());
+  const reminders = () => adapter.load<Reminder[]>('reminders', []);
+  return {
+    adapter,
+    reminders,
+    history: () => adapter.load<BreakEvent[]>('history', []),
+    setReminders: (update: (prev: Reminder[]) => Reminder[]) => {
+      const prev = reminders();
+      adapter.save('reminders', prev, update(prev));
+    },
+    addEvent: (event: BreakEvent) => {
+      const prev = adapter.load<BreakEvent[]>('history', []);
+      adapter.save('history', prev, [...prev, event]);
+    },
+    sync: (now = Date.now) => syncNow(adapter, through(handler), now),
+    state: () => adapter.load<SyncState | null>(SYNC_STATE_KEY, null),
+  };
+};
+
+const reminder = (id: string, name: string, createdAt = 1000): Reminder => ({
+  id, name, durationSeconds: 60, active: true, createdAt, lastTriggered: 0, type: 'recurring', intervalSeconds: 1800,
+});
+
+const event = (id: string, at: number): BreakEvent => ({ id, type: 'finished', reminderId: 'r1', reminderName: 'Water', at });
+
+// Two devices sharing one sync code; both start with sync on
+const pair = () => {
+  const handler = createSyncHandler();
+  const a = device(handler);
+  const b = device(handler);
+  startSync(a.adapter, SPACE);
+  startSync(b.adapter, SPACE);
+  return { handler, a, b };
+};
+
+describe('POST /api/sync', () => {
+  it('rejects other methods with 405', async () => {
+    const res = await call(createSyncHandler(), { method: 'GET' });
+    assert.equal(res.statusCode, 405);
+    assert.equal(res.headers.allow, 'POST');
+  });
+
+  it('rejects a request without a valid sync code', async () => {
+    const res = await call(createSyncHandler(), { body: { space: '../etc', changes: [] } });
+    assert.equal(res.statusCode, 400);
+    assert.equal((res.body as { error: SyncError }).error.code, 'invalid_request');
+  });
+
+  it('rejects records whose body does not match the collection', async () => {
+    const change = { collection: 'reminders', id: 'r1', updatedAt: 1, data: event('r1', 1) };
+    const res = await call(createSyncHandler(), { body: { space: SPACE, changes: [change] } });
+    assert.equal(res.statusCode, 400);
+  });
+
+  it('returns what changed since the given revision, without echoing the sender', async () => {
+    const handler = createSyncHandler();
+    const change: SyncRecord = { collection: 'reminders', id: 'r1', updatedAt: 5, data: reminder('r1', 'Water') };
+    const first = await call(handler, { body: { space: SPACE, since: 0, changes: [change] } });
+    const { epoch } = first.body as SyncResponse;
+    assert.deepEqual(first.body, { epoch, cursor: 1, changes: [], more: false });
+
+    const other = await call(handler, { body: { space: SPACE, since: 0 } });
+    assert.deepEqual((other.body as SyncResponse).changes, [change]);
+    const caughtUp = await call(handler, { body: { space: SPACE, since: 1, epoch } });
+    assert.deepEqual((caughtUp.body as SyncResponse).changes, []);
+  });
+
+  it('sends back the stored winner when a change loses', async () => {
+    const handler = createSyncHandler();
+    const newer: SyncRecord = { collection: 'reminders', id: 'r1', updatedAt: 9, data: reminder('r1', 'Newer') };
+    const older: SyncRecord = { collection: 'reminders', id: 'r1', updatedAt: 5, data: reminder('r1', 'Older') };
+    const { epoch } = (await call(handler, { body: { space: SPACE, changes: [newer] } })).body as SyncResponse;
+    const res = await call(handler, { body: { space: SPACE, since: 1, epoch, changes: [older] } });
+    assert.deepEqual((res.body as SyncResponse).changes, [newer]);
+  });
+
+  it('keeps spaces in files across handlers', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'sync-'));
+    try {
+      const change: SyncRecord = { collection: 'history', id: 'e1', updatedAt: 3, data: event('e1', 3) };
+      await call(createSyncHandler({ store: createFileStore(dir) }), { body: { space: SPACE, changes: [change] } });
+      const res = await call(createSyncHandler({ store: createFileStore(dir) }), { body: { space: SPACE } });
+      assert.deepEqual((res.body as SyncResponse).changes, [change]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('tells a device whose cursor is from before the store started over to reset', async () => {
+    const before = await call(createSyncHandler(), { body: { space: SPACE, changes: [] } });
+    const res = await call(createSyncHandler(), { body: { space: SPACE, since: 3, epoch: (before.body as SyncResponse).epoch } });
+    assert.equal((res.body as SyncResponse).reset, true);
+    assert.equal((res.body as SyncResponse).cursor, 0);
+  });
+
+  it('refuses to sync in production without a persistent store', async () => {
+    const { NODE_ENV } = process.env;
+    process.env.NODE_ENV = 'production';
+    try {
+      const res = await call(createSyncHandler(), { body: { space: SPACE } });
+      assert.equal(res.statusCode, 503);
+      assert.equal((res.body as { error: SyncError }).error.code, 'unavailable');
+    } finally {
+      process.env.NODE_ENV = NODE_ENV;
+    }
+  });
+});
+
+describe('pickWinner', () => {
+  it('gives the same answer whichever side asks', () => {
+    const records: SyncRecord[] = [
+      { collection: 'reminders', id: 'r1', updatedAt: 5, data: reminder('r1', 'A') },
+      { collection: 'reminders', id: 'r1', updatedAt: 5, data: reminder('r1', 'B') },
+      { collection: 'reminders', id: 'r1', updatedAt: 5, deleted: true },
+      { collection: 'reminders', id: 'r1', updatedAt: 6, data: reminder('r1', 'C') },
+    ];
+    for (const a of records) {
+      for (const b of records) assert.equal(pickWinner(a, b), pickWinner(b, a));
+    }
+    assert.equal(pickWinner(records[0], records[2]), records[2]);
+    assert.equal(pickWinner(records[2], records[3]), records[3]);
+  });
+});
+
+describe('syncing devices', () => {
+  it('brings existing data from both devices together when sync is turned on', async () => {
+    const handler = createSyncHandler();
+    const a = device(handler);
+    const b = device(handler);
+    a.setReminders(() => [reminder('r1', 'Water')]);
+    b.setReminders(() => [reminder('r2', 'Stretch', 2000)]);
+    startSync(a.adapter, SPACE);
+    startSync(b.adapter, SPACE);
+
+    await a.sync();
+    await b.sync();
+    await a.sync();
+    assert.deepEqual(a.reminders().map(r => r.name), ['Stretch', 'Water']);
+    assert.deepEqual(b.reminders().map(r => r.name), ['Stretch', 'Water']);
+    assert.deepEqual(a.state()?.dirty, {});
+  });
+
+  it('stamps local edits and queues them until they are sent', async () => {
+    const { a } = pair();
+    a.setReminders(() => [reminder('r1', 'Water')]);
+    const [stamped] = a.reminders();
+    assert.equal(typeof stamped.updatedAt, 'number');
+    assert.deepEqual(Object.keys(a.state()!.dirty), ['reminders:r1']);
+    await a.sync();
+    assert.deepEqual(a.state()!.dirty, {});
+  });
+
+  it('keeps edits queued while the server is unreachable', async () => {
+    const { a } = pair();
+    a.setReminders(() => [reminder('r1', 'Water')]);
+    const offline: SendSync = async () => ({ ok: false, error: { code: 'unavailable', message: 'Offline' } });
+    const result = await syncNow(a.adapter, offline);
+    assert.equal(result.ok, false);
+    assert.deepEqual(Object.keys(a.state()!.dirty), ['reminders:r1']);
+  });
+
+  it('settles offline edits of the same reminder on both devices the same way', async () => {
+    const { a, b } = pair();
+    a.setReminders(() => [reminder('r1', 'Water')]);
+    await a.sync();
+    await b.sync();
+
+    // Both edit while offline; B's edit is the later one
+    const later = Date.now() + 1000;
+    a.adapter.save('reminders', a.reminders(), [{ ...a.reminders()[0], name: 'Water (A)', updatedAt: later }]);
+    b.adapter.save('reminders', b.reminders(), [{ ...b.reminders()[0], name: 'Water (B)', updatedAt: later + 1000 }]);
+    await a.sync();
+    await b.sync();
+    await a.sync();
+    assert.equal(a.reminders()[0].name, 'Water (B)');
+    assert.deepEqual(b.reminders(), a.reminders());
+  });
+
+  it('syncs deletions as tombstones', async () => {
+    const { a, b } = pair();
+    a.setReminders(() => [reminder('r1', 'Water'), reminder('r2', 'Stretch')]);
+    await a.sync();
+    await b.sync();
+
+    b.setReminders(prev => prev.filter(r => r.id !== 'r1'));
+    const tombstones = b.adapter.load<Tombstone[]>(SYNC_TOMBSTONES_KEY, []);
+    assert.deepEqual(tombstones.map(t => t.id), ['r1']);
+    await b.sync();
+    await a.sync();
+    assert.deepEqual(a.reminders().map(r => r.id), ['r2']);
+  });
+
+  it('lets a later edit win over an earlier deletion', async () => {
+    const { a, b } = pair();
+    a.setReminders(() => [reminder('r1', 'Water')]);
+    await a.sync();
+    await b.sync();
+
+    b.setReminders(() => []);
+    const deletedAt = b.adapter.load<Tombstone[]>(SYNC_TOMBSTONES_KEY, [])[0].deletedAt;
+    a.adapter.save('reminders', a.reminders(), [{ ...a.reminders()[0], name: 'Still water', updatedAt: deletedAt + 1 }]);
+    await b.sync();
+    await a.sync();
+    await b.sync();
+    assert.deepEqual(b.reminders().map(r => r.name), ['Still water']);
+    assert.deepEqual(a.reminders().map(r => r.name), ['Still water']);
+  });
+
+  it('merges history from both devices in time order', async () => {
+    const { a, b } = pair();
+    a.addEvent(event('e1', 100));
+    b.addEvent(event('e2', 50));
+    a.addEvent(event('e3', 300));
+    await a.sync();
+    await b.sync();
+    await a.sync();
+    assert.deepEqual(a.history().map(e => e.id), ['e2', 'e1', 'e3']);
+    assert.deepEqual(b.history(), a.history());
+  });
+
+  it('sends everything again after the server lost its data', async () => {
+    // Swapping the handler for a new one is a cold start with an empty memory store
+    let server = createSyncHandler();
+    const handler: Handler = (req, res) => server(req, res);
+    const a = device(handler);
+    const b = device(handler);
+    startSync(a.adapter, SPACE);
+    startSync(b.adapter, SPACE);
+    a.setReminders(() => [reminder('r1', 'Water'), reminder('r2', 'Stretch', 2000), reminder('r3', 'Walk', 3000)]);
+    await a.sync();
+    await b.sync();
+    assert.equal(a.state()!.cursor, 3);
+
+    server = createSyncHandler();
+    a.setReminders(prev => [reminder('r4', 'Breathe', 4000), ...prev]);
+    await a.sync();
+    await b.sync();
+    await b.sync();
+    assert.deepEqual(b.reminders().map(r => r.id), ['r4', 'r3', 'r2', 'r1']);
+    assert.ok(b.state()!.cursor >= 4);
+
+    // The new store has everything again
+    const c = device(handler);
+    startSync(c.adapter, SPACE);
+    await c.sync();
+    assert.deepEqual(c.reminders().map(r => r.id), ['r4', 'r3', 'r2', 'r1']);
+  });
+
+  it('catches up over several pages', async () => {
+    const { a, b } = pair();
+    const events = Array.from({ length: 2500 }, (_, i) => event(`e${i}`, i));
+    a.adapter.save('history', [], events);
+    await a.sync();
+    assert.deepEqual(a.state()!.dirty, {});
+    await b.sync();
+    assert.equal(b.history().length, 2500);
+  });
+});
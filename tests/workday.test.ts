@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MIN_SLEEP_GAP_MS, isAway, lastWorkBoundary, sleptBetween } from '../lib/workday';
+import type { WorkSchedule } from '../lib/types';
+
+const MINUTE = 60 * 1000;
+const weekdays: WorkSchedule = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' };
+
+// Local times, as the schedule is read in the user's time zone (2025-03-05 is a Wednesday)
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 2, day, hours, minutes).getTime();
+
+describe('isAway', () => {
+  it('is away once there has been no activity for the idle limit', () => {
+    assert.equal(isAway(0, 10 * MINUTE, 10 * MINUTE), true);
+    assert.equal(isAway(0, 10 * MINUTE - 1, 10 * MINUTE), false);
+  });
+
+  it('goes back to present after new activity', () => {
+    assert.equal(isAway(20 * MINUTE, 21 * MINUTE, 10 * MINUTE), false);
+  });
+});
+
+describe('sleptBetween', () => {
+  it('takes a tick that comes in later than the idle limit for sleep', () => {
+    assert.equal(sleptBetween(0, 30 * MINUTE, 10 * MINUTE), true);
+    assert.equal(sleptBetween(0, 5 * MINUTE, 10 * MINUTE), false);
+  });
+
+  it('ignores gaps a throttled background tab could explain', () => {
+    assert.equal(sleptBetween(0, MIN_SLEEP_GAP_MS - 1, MINUTE), false);
+    assert.equal(sleptBetween(0, MIN_SLEEP_GAP_MS, MINUTE), true);
+  });
+});
+
+describe('lastWorkBoundary', () => {
+  it('finds the start of today’s workday', () => {
+    assert.deepEqual(lastWorkBoundary(weekdays, at(5, 10)), { at: at(5, 9), active: true });
+  });
+
+  it('finds the end of today’s workday once it is over', () => {
+    assert.deepEqual(lastWorkBoundary(weekdays, at(5, 18, 30)), { at: at(5, 18), active: false });
+  });
+
+  it('goes back to yesterday before today’s workday starts', () => {
+    assert.deepEqual(lastWorkBoundary(weekdays, at(5, 8)), { at: at(4, 18), active: false });
+  });
+
+  it('skips days off', () => {
+    // Sunday 2025-03-09 goes back to Friday's end
+    assert.deepEqual(lastWorkBoundary(weekdays, at(9, 12)), { at: at(7, 18), active: false });
+  });
+
+  it('has no boundary without a usable schedule', () => {
+    assert.equal(lastWorkBoundary(null, at(5, 10)), null);
+    assert.equal(lastWorkBoundary({ ...weekdays, days: [] }, at(5, 10)), null);
+    assert.equal(lastWorkBoundary({ ...weekdays, end: '08:00' }, at(5, 10)), null);
+  });
+});
@@ -1,9 +1,45 @@
 import path from 'path';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+
+const SW_PLACEHOLDER = "const BUILD = { version: 'dev', assets: [] };";
+
+// Writes the build's version and hashed files into dist/sw.js, so every build that
+// changes the app ships a changed service worker that precaches exactly its assets.
+const serviceWorkerBuild = (): Plugin => {
+  let outDir = '';
+  let build = { version: '', assets: [] as string[] };
+  return {
+    name: 'service-worker-build',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const assets = Object.values(bundle).filter(file => !file.fileName.endsWith('.map') && file.fileName !== 'index.html');
+      for (const file of assets) {
+        hash.update(file.fileName);
+        hash.update(file.type === 'chunk' ? file.code : file.source);
+      }
+      build = { version: hash.digest('hex').slice(0, 12), assets: assets.map(file => `/${file.fileName}`).sort() };
+    },
+    // After public/ has been copied over
+    closeBundle() {
+      const file = path.join(outDir, 'sw.js');
+      const source = readFileSync(file, 'utf8');
+      if (!source.includes(SW_PLACEHOLDER)) throw new Error('sw.js no longer has the BUILD placeholder');
+      writeFileSync(file, source.replace(SW_PLACEHOLDER, `const BUILD = ${JSON.stringify(build)};`));
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorkerBuild()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)